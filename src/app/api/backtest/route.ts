@@ -0,0 +1,101 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/backtest
+// Replays the SilentSurge scoring over historical bars.
+// Query: from, to (YYYY-MM-DD), interval (1d|5m|15m|30m|60m),
+//        symbols (comma-separated) or universe (index id or
+//        "watchlist:<name>"), profile, pivotMethod, pivotLevel,
+//        and any CRITERIA key as a threshold override,
+//        e.g. ?MIN_PUMP_PERCENT=3
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { runBacktest, type BacktestInterval } from "@/lib/backtest";
+import {
+    parseCriteriaOverrides,
+    parsePivotTarget,
+    resolveCriteria,
+} from "@/lib/criteria";
+import { resolveUniverse } from "@/lib/universe";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // replaying 200 symbols is slow
+
+const INTERVALS: BacktestInterval[] = ["1d", "5m", "15m", "30m", "60m"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+
+    const from = params.get("from") ?? "";
+    const to = params.get("to") ?? "";
+    if (!DATE_RE.test(from) || !DATE_RE.test(to)) {
+        return NextResponse.json(
+            { error: "`from` and `to` are required as YYYY-MM-DD" },
+            { status: 400 },
+        );
+    }
+
+    const interval = (params.get("interval") ?? "1d") as BacktestInterval;
+    if (!INTERVALS.includes(interval)) {
+        return NextResponse.json(
+            { error: `Invalid interval "${interval}"` },
+            { status: 400 },
+        );
+    }
+
+    const { overrides, error } = parseCriteriaOverrides(params);
+    if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const { target, error: pivotError } = parsePivotTarget(
+        params.get("pivotMethod"),
+        params.get("pivotLevel"),
+    );
+    if (pivotError) {
+        return NextResponse.json({ error: pivotError }, { status: 400 });
+    }
+
+    let symbols = (params.get("symbols") ?? "")
+        .split(",")
+        .map((s) => s.trim().toUpperCase())
+        .filter(Boolean)
+        .map((s) => (/\.(NS|BO)$/.test(s) ? s : `${s}.NS`));
+
+    try {
+        if (symbols.length === 0) {
+            const universe = await resolveUniverse(params.get("universe"));
+            if (!universe) {
+                return NextResponse.json(
+                    { error: `Unknown universe "${params.get("universe")}"` },
+                    { status: 400 },
+                );
+            }
+            symbols = universe.symbols;
+        }
+
+        const profile = params.get("profile") ?? undefined;
+        const resolved = await resolveCriteria(profile, overrides, target);
+        if (!resolved) {
+            return NextResponse.json(
+                { error: `Unknown criteria profile "${profile}"` },
+                { status: 400 },
+            );
+        }
+
+        const report = await runBacktest({
+            from,
+            to,
+            interval,
+            symbols,
+            criteria: resolved.criteria,
+            pivot: resolved.pivotTarget,
+            weights: resolved.weights,
+        });
+        return NextResponse.json(report);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/backtest] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
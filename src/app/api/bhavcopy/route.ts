@@ -0,0 +1,70 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: /api/bhavcopy
+// GET  → ingested dates and the folder watched for files
+// POST → ingest end-of-day files:
+//          ?date=YYYY-MM-DD   download that date from NSE
+//          ?name=<file>       body is the file's text (CSV/DAT)
+//          (neither)          rescan BHAVCOPY_DIR now
+// Point a nightly cron at POST ?date=<today> to keep delivery
+// and OHLC data current without per-ticker NSE calls.
+//
+// When CRON_SECRET is set, POST requests must send
+// "Authorization: Bearer <CRON_SECRET>".
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+    downloadBhavcopy,
+    getBhavcopyStatus,
+    ingestBhavcopy,
+    ingestBhavcopyDirectory,
+    type IngestResult,
+} from "@/lib/bhavcopy";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET() {
+    try {
+        return NextResponse.json(await getBhavcopyStatus());
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/bhavcopy] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const date = params.get("date");
+    const name = params.get("name");
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return NextResponse.json({ error: `Invalid date "${date}"` }, { status: 400 });
+    }
+    if (name && !/^[\w.-]+\.(csv|dat)$/i.test(name)) {
+        return NextResponse.json({ error: `Invalid file name "${name}"` }, { status: 400 });
+    }
+
+    let ingested: IngestResult[];
+    try {
+        if (date) {
+            ingested = [await downloadBhavcopy(date)];
+        } else if (name) {
+            ingested = [await ingestBhavcopy(name, await request.text())];
+        } else {
+            ingested = await ingestBhavcopyDirectory();
+        }
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/bhavcopy] Ingest failed:", message);
+        // A file we cannot parse is the caller's problem; a failed download is ours
+        return NextResponse.json({ error: message }, { status: name ? 400 : 502 });
+    }
+
+    return NextResponse.json({ ingested, status: await getBhavcopyStatus() });
+}
@@ -0,0 +1,49 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/history/[scanId]
+// Returns a single persisted scan with all its stock rows.
+// Query: ticker, status (narrow the returned rows)
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { getScan } from "@/lib/history";
+import type { StockStatus } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: StockStatus[] = ["alert", "watch", "filtered"];
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ scanId: string }> },
+) {
+    const { scanId } = await params;
+    const search = request.nextUrl.searchParams;
+
+    const status = search.get("status") ?? undefined;
+    if (status && !STATUSES.includes(status as StockStatus)) {
+        return NextResponse.json(
+            { error: `Invalid status "${status}"` },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const scan = await getScan(scanId, {
+            ticker: search.get("ticker") ?? undefined,
+            status: status as StockStatus | undefined,
+        });
+
+        if (!scan) {
+            return NextResponse.json(
+                { error: `Scan "${scanId}" not found` },
+                { status: 404 },
+            );
+        }
+
+        return NextResponse.json(scan);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/history] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
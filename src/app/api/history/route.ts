@@ -0,0 +1,53 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/history
+// Lists persisted scans, newest first.
+// Query: date, from, to, ticker, status, limit, offset
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { listScans } from "@/lib/history";
+import type { HistoryResponse, StockStatus } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: StockStatus[] = ["alert", "watch", "filtered"];
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+
+    const status = params.get("status") ?? undefined;
+    if (status && !STATUSES.includes(status as StockStatus)) {
+        const response: HistoryResponse = {
+            scans: [],
+            total: 0,
+            error: `Invalid status "${status}"`,
+        };
+        return NextResponse.json(response, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(Number(params.get("limit") ?? 50) || 50, 1), 500);
+    const offset = Math.max(Number(params.get("offset") ?? 0) || 0, 0);
+
+    try {
+        const { scans, total } = await listScans(
+            {
+                date: params.get("date") ?? undefined,
+                from: params.get("from") ?? undefined,
+                to: params.get("to") ?? undefined,
+                ticker: params.get("ticker") ?? undefined,
+                status: status as StockStatus | undefined,
+            },
+            limit,
+            offset,
+        );
+
+        const response: HistoryResponse = { scans, total };
+        return NextResponse.json(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/history] Error:", message);
+
+        const errorResponse: HistoryResponse = { scans: [], total: 0, error: message };
+        return NextResponse.json(errorResponse, { status: 500 });
+    }
+}
@@ -0,0 +1,40 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/outcomes
+// Per-alert scorecard: what price did after each alert.
+// Query: date (YYYY-MM-DD), ticker, limit
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { getOutcomes, summarizeOutcomes } from "@/lib/outcomes";
+import type { OutcomesResponse } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(Number(params.get("limit") ?? 100) || 100, 1), 1000);
+
+    try {
+        const outcomes = await getOutcomes({
+            date: params.get("date") ?? undefined,
+            ticker: params.get("ticker") ?? undefined,
+        });
+
+        const response: OutcomesResponse = {
+            outcomes: outcomes.slice(0, limit),
+            summary: summarizeOutcomes(outcomes),
+        };
+        return NextResponse.json(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/outcomes] Error:", message);
+
+        const errorResponse: OutcomesResponse = {
+            outcomes: [],
+            summary: summarizeOutcomes([]),
+            error: message,
+        };
+        return NextResponse.json(errorResponse, { status: 500 });
+    }
+}
@@ -0,0 +1,122 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: /api/profiles
+// GET    → list built-in and saved criteria profiles
+// POST   → save a profile:
+//          { name, description?, criteria, pivot?, benchmark?, weights? }
+//          where weights maps score factors to weights, e.g.
+//          { "delivery": 2, "news": 0 }
+// DELETE → remove a saved profile: ?name=
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+    listProfiles,
+    saveProfile,
+    deleteProfile,
+    parseBenchmark,
+    parseCriteriaOverrides,
+    parsePivotTarget,
+    parseScoreWeights,
+} from "@/lib/criteria";
+import type { ProfilesResponse } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+    try {
+        const response: ProfilesResponse = { profiles: await listProfiles() };
+        return NextResponse.json(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/profiles] Error:", message);
+
+        const errorResponse: ProfilesResponse = { profiles: [], error: message };
+        return NextResponse.json(errorResponse, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    let body: {
+        name?: unknown;
+        description?: unknown;
+        criteria?: unknown;
+        pivot?: unknown;
+        benchmark?: unknown;
+        weights?: unknown;
+    };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return NextResponse.json({ error: "Body must be a JSON object" }, { status: 400 });
+    }
+
+    if (typeof body.name !== "string" || !body.criteria || typeof body.criteria !== "object") {
+        return NextResponse.json(
+            { error: "`name` and `criteria` are required" },
+            { status: 400 },
+        );
+    }
+
+    const { overrides, error } = parseCriteriaOverrides(
+        body.criteria as Record<string, unknown>,
+    );
+    if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const pivot = (body.pivot ?? {}) as { method?: unknown; level?: unknown };
+    const { target, error: pivotError } = parsePivotTarget(pivot.method, pivot.level);
+    if (pivotError) {
+        return NextResponse.json({ error: pivotError }, { status: 400 });
+    }
+
+    const { benchmark, error: benchmarkError } = parseBenchmark(body.benchmark);
+    if (benchmarkError) {
+        return NextResponse.json({ error: benchmarkError }, { status: 400 });
+    }
+
+    const { weights, error: weightsError } = parseScoreWeights(body.weights);
+    if (weightsError) {
+        return NextResponse.json({ error: weightsError }, { status: 400 });
+    }
+
+    try {
+        const profile = await saveProfile(
+            body.name,
+            overrides,
+            typeof body.description === "string" ? body.description : undefined,
+            target,
+            benchmark,
+            weights,
+        );
+        return NextResponse.json(profile);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        return NextResponse.json({ error: message }, { status: 400 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const name = request.nextUrl.searchParams.get("name");
+    if (!name) {
+        return NextResponse.json({ error: "`name` is required" }, { status: 400 });
+    }
+
+    try {
+        const removed = await deleteProfile(name);
+        if (!removed) {
+            return NextResponse.json(
+                { error: `No saved profile named "${name}"` },
+                { status: 404 },
+            );
+        }
+        return NextResponse.json({ deleted: name.trim().toLowerCase() });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/profiles] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
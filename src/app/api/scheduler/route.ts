@@ -0,0 +1,20 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/scheduler
+// Scheduler configuration, whether NSE is in session and the
+// outcome of the last scheduled scan, for the dashboard.
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse } from "next/server";
+import { getSchedulerStatus } from "@/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+    try {
+        return NextResponse.json(await getSchedulerStatus());
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/scheduler] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,24 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/scheduler/tick
+// Runs one scheduled scan, for hosts where an external cron
+// drives the schedule instead of the in-process timer (e.g.
+// Vercel Cron). Skips outside NSE hours like the timer does.
+//
+// When CRON_SECRET is set, requests must send
+// "Authorization: Bearer <CRON_SECRET>".
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { runScheduledScan } from "@/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(await runScheduledScan("cron"));
+}
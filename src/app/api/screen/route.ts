@@ -1,186 +1,125 @@
 // ──────────────────────────────────────────────────────────────
-// SilentSurge — API Route: GET /api/screen
-// Orchestrates all data sources, computes advanced metrics,
-// classifies stocks, and triggers WhatsApp alerts.
+// SilentSurge — API Route: GET|POST /api/screen
+// Runs the screening pipeline (lib/screener.ts) on demand:
+// classifies stocks, dispatches alerts, saves the scan
+// to history and starts outcome tracking for new alerts.
+//
+// Thresholds come from a criteria profile (?profile=, default
+// "default") with per-request overrides keyed like CRITERIA,
+// either as query params (GET) or a JSON body (POST):
+//   { "profile": "aggressive", "criteria": { "MIN_PUMP_PERCENT": 3 } }
+// The near-resistance level is selectable with ?pivotMethod=
+// &pivotLevel= (GET) or "pivot": { "method", "level" } (POST).
+// ?benchmark= / "benchmark" sets what the outperformance check
+// compares with: "sector" (the stock's sectoral index, default)
+// or "market" (the Nifty 50).
+//
+// ?mode=surge (default) screens gainers for short setups,
+// ?mode=dump screens losers with the mirrored criteria (drop,
+// underperformance, near the mirrored support level) for long
+// setups, and ?mode=both runs the two together.
+//
+// ?universe= / "universe" picks the symbols to scan: an index
+// (nifty50, nifty100, nifty200, nifty500, midcap150,
+// smallcap250) or a saved watchlist as "watchlist:<name>".
 // ──────────────────────────────────────────────────────────────
 
-import { NextResponse } from "next/server";
-import { getTopGainers, getNiftyChangePercent } from "@/lib/yahoo";
-import { searchTwitterMentions } from "@/lib/twitter";
-import { searchRedditMentions } from "@/lib/reddit";
-import { searchTelegramMentions } from "@/lib/telegram";
-import { getDeliveryPercent } from "@/lib/delivery";
-import { getPivotData } from "@/lib/pivots";
-import { sendWhatsAppAlert } from "@/lib/whatsapp";
+import { NextResponse, type NextRequest } from "next/server";
 import {
-    tickerFromSymbol,
-    CRITERIA,
-    type StockData,
-    type StockStatus,
-    type ScreenResponse,
+    parseBenchmark,
+    parseCriteriaOverrides,
+    parsePivotTarget,
+    resolveCriteria,
+} from "@/lib/criteria";
+import { parseScreenMode, parseScreenParams, runScreen } from "@/lib/screener";
+import { resolveUniverse } from "@/lib/universe";
+import type {
+    CriteriaThresholds,
+    OutperformanceBenchmark,
+    PivotTarget,
+    ScreenMode,
+    ScreenResponse,
 } from "@/lib/constants";
 
 export const dynamic = "force-dynamic"; // never cache this route
 export const maxDuration = 60; // allow up to 60s on Vercel (Pro plan)
 
-/** Track which tickers already received alerts this session to avoid spam */
-const _alertedTickers = new Set<string>();
+export async function GET(request: NextRequest) {
+    const parsed = parseScreenParams(request.nextUrl.searchParams);
+    if ("error" in parsed) return badRequest(parsed.error);
+    const { params } = parsed;
+
+    return screen(
+        params.profileName,
+        params.overrides,
+        params.pivotTarget,
+        params.benchmark,
+        params.mode,
+        params.universeId,
+    );
+}
 
-export async function GET() {
+export async function POST(request: NextRequest) {
+    let body: {
+        profile?: unknown;
+        criteria?: unknown;
+        pivot?: unknown;
+        benchmark?: unknown;
+        mode?: unknown;
+        universe?: unknown;
+    };
     try {
-        // ── Step 1: Fetch Nifty 50 benchmark and top gainers in parallel ─
-        const [gainers, niftyChangePercent] = await Promise.all([
-            getTopGainers(CRITERIA.MIN_PUMP_PERCENT),
-            getNiftyChangePercent(),
-        ]);
-
-        if (gainers.length === 0) {
-            const response: ScreenResponse = {
-                stocks: [],
-                scannedAt: new Date().toISOString(),
-                totalScanned: 0,
-                alertsSent: 0,
-                niftyChangePercent,
-            };
-            return NextResponse.json(response);
-        }
-
-        // ── Step 2: Enrich each gainer with all data sources ──────────
-        let alertsSent = 0;
-
-        const enriched: StockData[] = await Promise.all(
-            gainers.map(async (stock) => {
-                const ticker = tickerFromSymbol(stock.symbol);
-
-                // Fire all lookups in parallel for speed
-                const [
-                    twitterResults,
-                    redditResults,
-                    telegramResults,
-                    deliveryPercent,
-                    pivotData,
-                ] = await Promise.all([
-                    searchTwitterMentions(ticker),
-                    searchRedditMentions(ticker),
-                    searchTelegramMentions(ticker),
-                    getDeliveryPercent(ticker),
-                    getPivotData(stock.symbol, stock.price),
-                ]);
-
-                // ── Social mentions ──
-                const twitterMentions = twitterResults.length;
-                const redditMentions = redditResults.length;
-                const telegramMentions = telegramResults.length;
-                const totalMentions =
-                    twitterMentions + redditMentions + telegramMentions;
-                const mentions = [
-                    ...twitterResults,
-                    ...redditResults,
-                    ...telegramResults,
-                ];
-
-                // ── Silence Score ──
-                const silenceScore =
-                    Math.round(
-                        (stock.changePercent / (1 + totalMentions)) * 100,
-                    ) / 100;
-
-                // ── Pivot data ──
-                const pivotR2 = pivotData?.r2 ?? 0;
-                const r2Proximity = pivotData?.r2Proximity ?? -1;
-                const nearR2 = pivotData?.nearR2 ?? false;
-
-                // ── Sector outperformance ──
-                const sectorOutperformance =
-                    Math.round(
-                        (stock.changePercent - niftyChangePercent) * 100,
-                    ) / 100;
-
-                // ── Status classification ──
-                const passesDelivery =
-                    deliveryPercent >= 0 &&
-                    deliveryPercent < CRITERIA.MAX_DELIVERY_PERCENT;
-                const passesR2 = nearR2;
-                const passesSector =
-                    sectorOutperformance >= CRITERIA.MIN_SECTOR_OUTPERFORMANCE;
-                const passesMentions =
-                    totalMentions <= CRITERIA.MAX_MENTIONS;
-
-                let status: StockStatus;
-                let alertSent = false;
-
-                if (
-                    passesDelivery &&
-                    passesR2 &&
-                    passesSector &&
-                    passesMentions
-                ) {
-                    status = "alert";
-
-                    // Send WhatsApp alert (only once per ticker per session)
-                    if (!_alertedTickers.has(ticker)) {
-                        const sent = await sendWhatsAppAlert(
-                            ticker,
-                            stock.changePercent,
-                            deliveryPercent,
-                            r2Proximity,
-                        );
-                        if (sent) {
-                            _alertedTickers.add(ticker);
-                            alertsSent++;
-                            alertSent = true;
-                        }
-                    }
-                } else if (
-                    // At least 2 of the 4 criteria pass → watch
-                    [passesDelivery, passesR2, passesSector, passesMentions]
-                        .filter(Boolean).length >= 2
-                ) {
-                    status = "watch";
-                } else {
-                    status = "filtered";
-                }
-
-                return {
-                    ...stock,
-                    twitterMentions,
-                    redditMentions,
-                    telegramMentions,
-                    totalMentions,
-                    silenceScore,
-                    mentions,
-                    deliveryPercent,
-                    pivotR2,
-                    r2Proximity,
-                    nearR2,
-                    sectorOutperformance,
-                    status,
-                    alertSent,
-                };
-            }),
-        );
-
-        // ── Step 3: Sort — alerts first, then by silence score ────────
-        const statusPriority: Record<StockStatus, number> = {
-            alert: 0,
-            watch: 1,
-            filtered: 2,
-        };
-        enriched.sort((a, b) => {
-            const p = statusPriority[a.status] - statusPriority[b.status];
-            if (p !== 0) return p;
-            return b.silenceScore - a.silenceScore;
-        });
-
-        const response: ScreenResponse = {
-            stocks: enriched,
-            scannedAt: new Date().toISOString(),
-            totalScanned: gainers.length,
-            alertsSent,
-            niftyChangePercent,
-        };
+        body = await request.json();
+    } catch {
+        return badRequest("Body must be JSON");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return badRequest("Body must be a JSON object");
+    }
 
-        return NextResponse.json(response);
+    const { overrides, error } = parseCriteriaOverrides(
+        body.criteria && typeof body.criteria === "object"
+            ? (body.criteria as Record<string, unknown>)
+            : {},
+    );
+    if (error) return badRequest(error);
+
+    const pivot = (body.pivot ?? {}) as { method?: unknown; level?: unknown };
+    const { target, error: pivotError } = parsePivotTarget(pivot.method, pivot.level);
+    if (pivotError) return badRequest(pivotError);
+
+    const { benchmark, error: benchmarkError } = parseBenchmark(body.benchmark);
+    if (benchmarkError) return badRequest(benchmarkError);
+
+    const mode = parseScreenMode(body.mode);
+    if (!mode) return badRequest(`Unknown mode "${String(body.mode)}"`);
+
+    return screen(
+        typeof body.profile === "string" ? body.profile : undefined,
+        overrides,
+        target,
+        benchmark,
+        mode,
+        typeof body.universe === "string" ? body.universe : undefined,
+    );
+}
+
+async function screen(
+    profileName: string | undefined,
+    overrides: Partial<CriteriaThresholds>,
+    pivotOverride: PivotTarget | undefined,
+    benchmarkOverride: OutperformanceBenchmark | undefined,
+    mode: ScreenMode,
+    universeId: string | undefined,
+) {
+    try {
+        const resolved = await resolveCriteria(profileName, overrides, pivotOverride, benchmarkOverride);
+        if (!resolved) return badRequest(`Unknown criteria profile "${profileName}"`);
+
+        const universe = await resolveUniverse(universeId);
+        if (!universe) return badRequest(`Unknown universe "${universeId}"`);
+
+        return NextResponse.json(await runScreen(resolved, mode, universe));
     } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
         console.error("[/api/screen] Error:", message);
@@ -197,3 +136,15 @@ export async function GET() {
         return NextResponse.json(errorResponse, { status: 500 });
     }
 }
+
+function badRequest(message: string) {
+    const response: ScreenResponse = {
+        stocks: [],
+        scannedAt: new Date().toISOString(),
+        totalScanned: 0,
+        alertsSent: 0,
+        niftyChangePercent: 0,
+        error: message,
+    };
+    return NextResponse.json(response, { status: 400 });
+}
@@ -0,0 +1,77 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/screen/stream
+// The same scan as GET /api/screen, streamed as Server-Sent
+// Events so the dashboard can render rows while the scan runs.
+// Accepts the same query params; see ScreenStreamEvent for the
+// event sequence. Invalid params get a JSON 400 like /api/screen.
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import { resolveCriteria } from "@/lib/criteria";
+import { parseScreenParams, runScreen } from "@/lib/screener";
+import { resolveUniverse } from "@/lib/universe";
+import type { ScreenStreamEvent } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+    const parsed = parseScreenParams(request.nextUrl.searchParams);
+    if ("error" in parsed) return badRequest(parsed.error);
+
+    const { profileName, overrides, pivotTarget, benchmark, mode, universeId } = parsed.params;
+    const encoder = new TextEncoder();
+    // Cleared when the client disconnects; the scan still runs to the
+    // end so alerts and history are not cut short
+    let connected = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ScreenStreamEvent) => {
+                if (!connected) return;
+                try {
+                    controller.enqueue(
+                        encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+                    );
+                } catch {
+                    connected = false;
+                }
+            };
+
+            try {
+                const resolved = await resolveCriteria(profileName, overrides, pivotTarget, benchmark);
+                const universe = resolved && (await resolveUniverse(universeId));
+                if (!resolved) {
+                    send({ type: "scan-error", error: `Unknown criteria profile "${profileName}"` });
+                } else if (!universe) {
+                    send({ type: "scan-error", error: `Unknown universe "${universeId}"` });
+                } else {
+                    send({ type: "done", response: await runScreen(resolved, mode, universe, send) });
+                }
+            } catch (err: unknown) {
+                const message = err instanceof Error ? err.message : String(err);
+                console.error("[/api/screen/stream] Error:", message);
+                send({ type: "scan-error", error: message });
+            } finally {
+                if (connected) controller.close();
+            }
+        },
+        cancel() {
+            connected = false;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            // Stop reverse proxies (nginx) from buffering the stream
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
+
+function badRequest(message: string) {
+    return NextResponse.json({ error: message }, { status: 400 });
+}
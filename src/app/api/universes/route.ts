@@ -0,0 +1,31 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: GET /api/universes
+// Lists the universes a scan can cover: NSE indices and saved
+// watchlists, plus the default used when none is chosen.
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse } from "next/server";
+import { DEFAULT_UNIVERSE, listUniverses } from "@/lib/universe";
+import type { UniversesResponse } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+    try {
+        const response: UniversesResponse = {
+            universes: await listUniverses(),
+            defaultUniverse: DEFAULT_UNIVERSE,
+        };
+        return NextResponse.json(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/universes] Error:", message);
+
+        const errorResponse: UniversesResponse = {
+            universes: [],
+            defaultUniverse: DEFAULT_UNIVERSE,
+            error: message,
+        };
+        return NextResponse.json(errorResponse, { status: 500 });
+    }
+}
@@ -0,0 +1,91 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — API Route: /api/watchlists
+// GET    → list saved watchlists
+// POST   → save a watchlist: { name, description?, symbols }
+//          where symbols is an array or comma-separated string
+//          of tickers ("RELIANCE" or "RELIANCE.NS")
+// DELETE → remove a watchlist: ?name=
+// Scan a watchlist with /api/screen?universe=watchlist:<name>.
+// ──────────────────────────────────────────────────────────────
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+    listWatchlists,
+    saveWatchlist,
+    deleteWatchlist,
+    parseSymbols,
+} from "@/lib/watchlists";
+import type { WatchlistsResponse } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+    try {
+        const response: WatchlistsResponse = { watchlists: await listWatchlists() };
+        return NextResponse.json(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/watchlists] Error:", message);
+
+        const errorResponse: WatchlistsResponse = { watchlists: [], error: message };
+        return NextResponse.json(errorResponse, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    let body: { name?: unknown; description?: unknown; symbols?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return NextResponse.json({ error: "Body must be a JSON object" }, { status: 400 });
+    }
+
+    if (typeof body.name !== "string" || body.symbols === undefined) {
+        return NextResponse.json(
+            { error: "`name` and `symbols` are required" },
+            { status: 400 },
+        );
+    }
+
+    const { symbols, error } = parseSymbols(body.symbols);
+    if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    try {
+        const watchlist = await saveWatchlist(
+            body.name,
+            symbols,
+            typeof body.description === "string" ? body.description : undefined,
+        );
+        return NextResponse.json(watchlist);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        return NextResponse.json({ error: message }, { status: 400 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const name = request.nextUrl.searchParams.get("name");
+    if (!name) {
+        return NextResponse.json({ error: "`name` is required" }, { status: 400 });
+    }
+
+    try {
+        const removed = await deleteWatchlist(name);
+        if (!removed) {
+            return NextResponse.json(
+                { error: `No watchlist named "${name}"` },
+                { status: 404 },
+            );
+        }
+        return NextResponse.json({ deleted: name.trim().toLowerCase() });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error("[/api/watchlists] Error:", message);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
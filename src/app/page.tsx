@@ -1,7 +1,14 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import type { ScreenResponse, StockData, SocialMention } from "@/lib/constants";
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  CRITERIA,
+  type ScreenResponse, type StockData, type SocialMention, type MentionSentiment, type MentionSummary, type SocialSourceInfo, type NewsItem, type OutcomesResponse,
+  type OutcomeCheckpoint, type CriteriaProfile, type ProfilesResponse, type HistoryResponse, type StoredScan,
+  type PivotTarget, type ScreenMode, type SchedulerStatus, type MarketSession, type ScreenStreamEvent,
+  type UniverseInfo, type UniversesResponse, type FnoContext, type OiBuildup,
+  DEFAULT_PIVOT_TARGET,
+} from "@/lib/constants";
 
 /** Format large numbers as compact strings: 1,23,456 → 1.23L */
 function formatIndianCompact(n: number): string {
@@ -21,6 +28,42 @@ function formatTime(iso: string): string {
   });
 }
 
+const PHASE_LABELS: Record<MarketSession["phase"], string> = {
+  "pre-open": "Pre-open",
+  open: "Market open",
+  "closing-auction": "Closing auction",
+  closed: "Market closed",
+  holiday: "Market holiday",
+};
+
+function describeSession(session: MarketSession): string {
+  const label = PHASE_LABELS[session.phase];
+  return session.reason ? `${label} (${session.reason})` : label;
+}
+
+/** One-line summary of the server-side scheduler for the header */
+function describeScheduler(status: SchedulerStatus): string {
+  if (!status.enabled) return "Auto-scan off";
+  const last = status.lastRun;
+  const lastText = last
+    ? last.outcome === "failed"
+      ? `last failed ${timeAgo(last.finishedAt)}`
+      : `last ${timeAgo(last.finishedAt)} (${last.alertsSent ?? 0} alerts)`
+    : "no runs yet";
+  if (status.running) return `Auto-scan running • ${lastText}`;
+  if (status.marketOpen) return `Auto-scan every ${status.intervalMinutes}m • ${lastText}`;
+  const reopens = status.nextSessionOpen
+    ? ` • opens ${new Date(status.nextSessionOpen).toLocaleString("en-IN", {
+        weekday: "short", hour: "2-digit", minute: "2-digit", hour12: true,
+      })}`
+    : "";
+  return `Market closed${reopens} • ${lastText}`;
+}
+
+function signedPercent(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`;
+}
+
 function timeAgo(iso: string): string {
   const diff = Date.now() - new Date(iso).getTime();
   const mins = Math.floor(diff / 60000);
@@ -30,18 +73,48 @@ function timeAgo(iso: string): string {
   return `${Math.floor(hours / 24)}d ago`;
 }
 
+const BUILDUP_LABELS: Record<OiBuildup, string> = {
+  "long-buildup": "Long buildup",
+  "short-buildup": "Short buildup",
+  "short-covering": "Short covering",
+  "long-unwinding": "Long unwinding",
+};
+
+function describeFno(fno: FnoContext): string {
+  return [
+    fno.buildup ? BUILDUP_LABELS[fno.buildup] : null,
+    fno.futuresOiChangePercent !== null ? `OI ${signedPercent(fno.futuresOiChangePercent)}` : null,
+    fno.pcr !== null ? `PCR ${fno.pcr.toFixed(2)}` : null,
+  ].filter(Boolean).join(" • ");
+}
+
+function volumeTier(rvol: number): "spike" | "normal" | "quiet" {
+  if (rvol >= 2) return "spike";
+  if (rvol >= 1) return "normal";
+  return "quiet";
+}
+
 function scoreTier(score: number): "high" | "medium" | "low" {
   if (score >= 5) return "high";
   if (score >= 2) return "medium";
   return "low";
 }
 
-const platformMeta: Record<string, { icon: string; label: string; color: string }> = {
-  twitter: { icon: "𝕏", label: "Twitter / X", color: "#1da1f2" },
-  reddit: { icon: "R", label: "Reddit", color: "#ff4500" },
-  telegram: { icon: "T", label: "Telegram", color: "#0088cc" },
+const pivotMethodShort: Record<string, string> = {
+  classic: "CLS", fibonacci: "FIB", camarilla: "CAM", woodie: "WDE", demark: "DMK",
 };
 
+/** Short label for a pivot level, e.g. "CAM R3" */
+function pivotLabel(target: PivotTarget): string {
+  return `${pivotMethodShort[target.method] ?? target.method} ${target.level}`;
+}
+
+/** Display info for a mention's source, with a plain fallback for unknown ids */
+function sourceMeta(sources: SocialSourceInfo[], id: string): SocialSourceInfo {
+  return sources.find((s) => s.id === id)
+    ?? { id, label: id, icon: id.charAt(0).toUpperCase(), color: "var(--color-cyan)" };
+}
+
 const statusConfig: Record<string, { icon: string; label: string; className: string }> = {
   alert: { icon: "🚨", label: "ALERT", className: "status-alert" },
   watch: { icon: "👁", label: "WATCH", className: "status-watch" },
@@ -91,10 +164,19 @@ function StatCard({ label, value, variant = "default" }: {
 }
 
 // ─── Mention Card ────────────────────────────────────────────
-function MentionCard({ mention }: { mention: SocialMention }) {
-  const meta = platformMeta[mention.platform];
+const SENTIMENT_LABELS: Record<MentionSentiment, string> = {
+  bullish: "Bullish",
+  bearish: "Bearish",
+  question: "Question",
+  neutral: "Neutral",
+};
+
+function MentionCard({ mention, sources }: { mention: SocialMention; sources: SocialSourceInfo[] }) {
+  const meta = sourceMeta(sources, mention.platform);
+  const analysis = mention.analysis;
+  const discounted = !!analysis && (analysis.spam || analysis.duplicateOf !== null);
   return (
-    <a href={mention.url} target="_blank" rel="noopener noreferrer" className="mention-card"
+    <a href={mention.url} target="_blank" rel="noopener noreferrer" className={`mention-card ${discounted ? "discounted" : ""}`}
       style={{ "--platform-color": meta.color } as React.CSSProperties}>
       <div className="mention-card-header">
         <span className="mention-platform-badge" style={{ background: meta.color }}>
@@ -107,43 +189,172 @@ function MentionCard({ mention }: { mention: SocialMention }) {
       <div className="mention-card-footer">
         {mention.author && <span className="mention-author">{mention.author}</span>}
         {mention.timestamp && <span className="mention-time">{timeAgo(mention.timestamp)}</span>}
+        {analysis && (
+          <span className="mention-tags" title={`Counts as ${analysis.weight} mention`}>
+            <span className={`mention-tag ${analysis.sentiment}`}>{SENTIMENT_LABELS[analysis.sentiment]}</span>
+            {analysis.spam && <span className="mention-tag spam">Spam</span>}
+            {analysis.duplicateOf !== null && <span className="mention-tag duplicate">Repost</span>}
+          </span>
+        )}
       </div>
     </a>
   );
 }
 
 // ─── Mentions Panel ──────────────────────────────────────────
-function MentionsPanel({ mentions }: { mentions: SocialMention[] }) {
+function MentionsPanel({ mentions, summary, sources }: {
+  mentions: SocialMention[]; summary?: MentionSummary; sources: SocialSourceInfo[];
+}) {
   if (mentions.length === 0) return null;
   return (
     <div className="mentions-panel">
       <div className="mentions-panel-header">
         <span className="mentions-panel-title">📎 Social Media Posts</span>
-        <span className="mentions-panel-count">{mentions.length} post{mentions.length !== 1 ? "s" : ""} found</span>
+        <span className="mentions-panel-count">
+          {mentions.length} post{mentions.length !== 1 ? "s" : ""} found
+          {summary && ` • counts as ${summary.weighted}`}
+          {summary && summary.spam > 0 && ` • ${summary.spam} spam`}
+          {summary && summary.duplicates > 0 && ` • ${summary.duplicates} repost${summary.duplicates !== 1 ? "s" : ""}`}
+        </span>
       </div>
       <div className="mentions-grid">
         {mentions.map((mention, i) => (
-          <MentionCard key={`${mention.platform}-${i}`} mention={mention} />
+          <MentionCard key={`${mention.platform}-${i}`} mention={mention} sources={sources} />
         ))}
       </div>
     </div>
   );
 }
 
+// ─── News Panel ──────────────────────────────────────────────
+function NewsPanel({ news }: { news: NewsItem[] }) {
+  if (news.length === 0) return null;
+  return (
+    <div className="mentions-panel">
+      <div className="mentions-panel-header">
+        <span className="mentions-panel-title">📰 News &amp; Announcements</span>
+        <span className="mentions-panel-count">{news.length} item{news.length !== 1 ? "s" : ""} found</span>
+      </div>
+      <div className="mentions-grid">
+        {news.map((item, i) => (
+          <a key={`${item.url}-${i}`} href={item.url} target="_blank" rel="noopener noreferrer" className="mention-card"
+            style={{ "--platform-color": item.kind === "announcement" ? "var(--color-orange)" : "var(--color-cyan)" } as React.CSSProperties}>
+            <div className="mention-card-header">
+              <span className="mention-platform-badge" style={{ background: item.kind === "announcement" ? "var(--color-orange)" : "var(--color-cyan)" }}>
+                {item.source}
+              </span>
+              <span className="mention-external-link"><ExternalLinkIcon /> Open</span>
+            </div>
+            <p className="mention-card-title">{item.title}</p>
+            <div className="mention-card-footer">
+              <span className="mention-author">{item.kind === "announcement" ? "Exchange filing" : "Article"}</span>
+              {item.publishedAt && <span className="mention-time">{timeAgo(item.publishedAt)}</span>}
+            </div>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ─── Score Panel ─────────────────────────────────────────────
+function ScorePanel({ stock }: { stock: StockData }) {
+  const factors = stock.scoreBreakdown ?? [];
+  if (factors.length === 0) return null;
+  return (
+    <div className="mentions-panel">
+      <div className="mentions-panel-header">
+        <span className="mentions-panel-title">🧮 Score Breakdown</span>
+        <span className="mentions-panel-count">{stock.score}/100{stock.untradeable ? ` • ${stock.untradeable}` : ""}</span>
+      </div>
+      <div className="score-factors">
+        {factors.map((f) => (
+          <div key={f.id} className="score-factor">
+            <span className="score-factor-label">{f.label} <span className="score-factor-weight">×{f.weight}</span></span>
+            <span className="score-bar">
+              <span className={`score-bar-fill ${f.passed ? "pass" : "fail"}`} style={{ width: `${f.score * 100}%` }} />
+            </span>
+            <span className="score-factor-detail">{f.detail}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ─── Intraday Panel ──────────────────────────────────────────
+function IntradayPanel({ stock }: { stock: StockData }) {
+  const day = stock.intraday;
+  if (!day) return null;
+  const orState = stock.price > day.openingRangeHigh ? "above" : stock.price < day.openingRangeLow ? "below" : "inside";
+  return (
+    <div className="mentions-panel">
+      <div className="mentions-panel-header">
+        <span className="mentions-panel-title">🕯️ Today&apos;s Session</span>
+        <span className="mentions-panel-count">
+          {day.moveType === "gap" ? `Gap ${signedPercent(day.gapPercent)}` : `Grind • gap ${signedPercent(day.gapPercent)}`}
+        </span>
+      </div>
+      <div className="intraday-grid">
+        <div className="intraday-stat">
+          <span className="intraday-label">VWAP</span>
+          <span className="intraday-value">{day.vwap !== null ? formatPrice(day.vwap) : "N/A"}</span>
+          {day.vwapDistance !== null && <span className="intraday-sub">{signedPercent(day.vwapDistance)} from VWAP</span>}
+        </div>
+        <div className="intraday-stat">
+          <span className="intraday-label">Opening Range ({day.openingRangeMinutes}m)</span>
+          <span className="intraday-value">{formatPrice(day.openingRangeLow)} – {formatPrice(day.openingRangeHigh)}</span>
+          <span className="intraday-sub">Price {orState} the range</span>
+        </div>
+        <div className="intraday-stat">
+          <span className="intraday-label">Day High</span>
+          <span className="intraday-value">{formatPrice(day.high)}</span>
+          <span className="intraday-sub">{day.pullbackFromHigh.toFixed(2)}% pullback</span>
+        </div>
+        <div className="intraday-stat">
+          <span className="intraday-label">Day Low</span>
+          <span className="intraday-value">{formatPrice(day.low)}</span>
+          <span className="intraday-sub">{day.bounceFromLow.toFixed(2)}% bounce</span>
+        </div>
+        <div className="intraday-stat">
+          <span className="intraday-label">Open</span>
+          <span className="intraday-value">{formatPrice(day.open)}</span>
+          <span className="intraday-sub">{day.moveType === "gap" ? "Move came at the open" : "Move built during the day"}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── Stock Row ───────────────────────────────────────────────
-function StockRow({ stock, rank }: { stock: StockData; rank: number }) {
+function StockRow({ stock, rank, maxDelivery, maxDeliveryRatio, sources }: {
+  stock: StockData; rank: number; maxDelivery: number; maxDeliveryRatio: number; sources: SocialSourceInfo[];
+}) {
   const [expanded, setExpanded] = useState(false);
   const tier = scoreTier(stock.silenceScore);
   const isSilent = stock.totalMentions === 0;
-  const hasLinks = stock.mentions && stock.mentions.length > 0;
+  const hasDetails = stock.mentions?.length > 0 || stock.news?.length > 0 || !!stock.intraday || stock.scoreBreakdown?.length > 0;
   const sc = statusConfig[stock.status] ?? statusConfig.filtered;
+  const baseline = stock.deliveryBaseline;
+  const limits = stock.restrictions;
+  // Shorts care about the upper circuit, longs about the lower one
+  const circuit = stock.direction === "long"
+    ? limits?.lowerCircuit && limits.lowerCircuitDistance !== null
+      ? { label: "Lower circuit", short: "LC", price: limits.lowerCircuit, away: limits.lowerCircuitDistance }
+      : null
+    : limits?.upperCircuit && limits.upperCircuitDistance !== null
+      ? { label: "Upper circuit", short: "UC", price: limits.upperCircuit, away: limits.upperCircuitDistance }
+      : null;
+  const speculative = maxDeliveryRatio > 0 && baseline?.ratio != null
+    ? baseline.ratio <= maxDeliveryRatio
+    : stock.deliveryPercent < maxDelivery;
 
   return (
     <>
       <tr
-        className={`fade-in ${hasLinks ? "clickable-row" : ""} ${expanded ? "expanded-row" : ""} ${stock.status === "alert" ? "alert-row" : ""}`}
+        className={`fade-in ${hasDetails ? "clickable-row" : ""} ${expanded ? "expanded-row" : ""} ${stock.status === "alert" ? "alert-row" : ""}`}
         style={{ animationDelay: `${rank * 40}ms` }}
-        onClick={() => hasLinks && setExpanded(!expanded)}
+        onClick={() => hasDetails && setExpanded(!expanded)}
       >
         {/* Rank */}
         <td className="right">
@@ -154,8 +365,16 @@ function StockRow({ stock, rank }: { stock: StockData; rank: number }) {
         {/* Symbol */}
         <td>
           <div className="cell-symbol">
-            <span className="symbol-name">{stock.symbol.replace(".NS", "")}</span>
+            <span className="symbol-name">
+              {stock.symbol.replace(".NS", "")}
+              <span className={`direction-badge ${stock.direction}`}>{stock.direction === "long" ? "LONG" : "SHORT"}</span>
+              {stock.fno?.eligible && <span className="fno-badge" title="In the F&O segment">F&amp;O</span>}
+              {stock.untradeable && <span className="untradeable-badge" title={stock.untradeable}>NO TRADE</span>}
+            </span>
             <span className="symbol-fullname">{stock.name}</span>
+            {stock.fno?.eligible && describeFno(stock.fno) && (
+              <span className={`fno-line ${stock.fno.buildup ?? ""}`}>{describeFno(stock.fno)}</span>
+            )}
           </div>
         </td>
         {/* Change % */}
@@ -163,62 +382,137 @@ function StockRow({ stock, rank }: { stock: StockData; rank: number }) {
           <span className={`change-badge ${stock.changePercent >= 0 ? "positive" : "negative"}`}>
             {stock.changePercent >= 0 ? "▲" : "▼"} {stock.changePercent.toFixed(2)}%
           </span>
+          {stock.staleQuote && (
+            <span
+              className="stale-badge"
+              title={stock.quotedAt ? `Quote last updated ${timeAgo(stock.quotedAt)}` : "Quote is out of date"}
+            >
+              STALE
+            </span>
+          )}
+          {stock.marketOutperformance !== undefined && (
+            <div
+              className="outperf-line"
+              title={`vs Nifty 50: ${signedPercent(stock.marketOutperformance)}${stock.sector ? ` • ${stock.sector.label} ${signedPercent(stock.sector.changePercent)} today` : ""}`}
+            >
+              vs {stock.sector?.label.replace(/^Nifty /, "") ?? "Nifty"} {signedPercent(stock.sectorOutperformance)}
+            </div>
+          )}
+          {circuit && (
+            <div className="cell-subline" title={`${circuit.label} ${formatPrice(circuit.price)}${stock.restrictions?.priceBand ? ` • band ${stock.restrictions.priceBand}` : ""}`}>
+              {circuit.short} {circuit.away.toFixed(2)}% away
+            </div>
+          )}
+        </td>
+        {/* Relative Volume */}
+        <td className="right">
+          {stock.relativeVolume ? (
+            <span
+              className={`rvol-cell ${volumeTier(stock.relativeVolume.rvolTimeOfDay ?? stock.relativeVolume.rvol)}`}
+              title={`Volume ${formatIndianCompact(stock.volume)} • 20-day avg ${formatIndianCompact(stock.relativeVolume.averageVolume)}${stock.relativeVolume.timeOfDayVolume !== null ? ` • usual by now ${formatIndianCompact(stock.relativeVolume.timeOfDayVolume)}` : ""}`}
+            >
+              {(stock.relativeVolume.rvolTimeOfDay ?? stock.relativeVolume.rvol).toFixed(1)}x
+            </span>
+          ) : (
+            <span className="rvol-cell na">N/A</span>
+          )}
+          {stock.relativeVolume?.rvolTimeOfDay != null && (
+            <div className="cell-subline">20d {stock.relativeVolume.rvol.toFixed(1)}x</div>
+          )}
         </td>
         {/* Delivery % */}
         <td className="right">
           {stock.deliveryPercent >= 0 ? (
-            <span className={`delivery-cell ${stock.deliveryPercent < 30 ? "speculative" : "institutional"}`}>
+            <span className={`delivery-cell ${speculative ? "speculative" : "institutional"}`}>
               {stock.deliveryPercent.toFixed(1)}%
             </span>
           ) : (
             <span className="delivery-cell na">N/A</span>
           )}
+          {baseline?.ratio != null && (
+            <div
+              className="cell-subline"
+              title={`20-day avg ${baseline.average20.toFixed(1)}% • 60-day avg ${baseline.average60.toFixed(1)}% ± ${baseline.stdDev60.toFixed(1)} (${baseline.sessions} sessions)`}
+            >
+              {baseline.ratio.toFixed(2)}x avg{baseline.zScore !== null && ` • z ${baseline.zScore >= 0 ? "+" : ""}${baseline.zScore.toFixed(1)}`}
+            </div>
+          )}
         </td>
-        {/* R2 Proximity */}
+        {/* Key Level Proximity */}
         <td className="right">
-          {stock.r2Proximity >= 0 ? (
-            <span className={`r2-cell ${stock.nearR2 ? "near" : "far"}`}>
-              {stock.r2Proximity.toFixed(2)}%
-              {stock.nearR2 && <span className="r2-indicator">⚡</span>}
+          {stock.targetLevel ? (
+            <span className={`r2-cell ${stock.nearTargetLevel ? "near" : "far"}`} title={`${pivotLabel(stock.targetLevel)} @ ${formatPrice(stock.targetLevel.price)}`}>
+              {stock.targetLevel.proximity.toFixed(2)}%
+              {stock.nearTargetLevel && <span className="r2-indicator">⚡</span>}
             </span>
           ) : (
             <span className="r2-cell na">N/A</span>
           )}
+          {stock.clusteredLevels?.length > 0 && (
+            <div className="pivot-cluster">
+              {stock.clusteredLevels.slice(0, 3).map((hit) => (
+                <span key={`${hit.method}-${hit.level}`} className="pivot-chip" title={`${formatPrice(hit.price)} (${hit.proximity.toFixed(2)}% away)`}>
+                  {pivotLabel(hit)}
+                </span>
+              ))}
+            </div>
+          )}
         </td>
         {/* Social Mentions */}
         <td>
           <div className="social-breakdown">
-            <span className="social-chip">
-              <span className="icon">𝕏</span>
-              <span className={`count ${stock.twitterMentions === 0 ? "zero" : ""}`}>{stock.twitterMentions}</span>
-            </span>
-            <span className="social-chip">
-              <span className="icon">R</span>
-              <span className={`count ${stock.redditMentions === 0 ? "zero" : ""}`}>{stock.redditMentions}</span>
-            </span>
-            <span className="social-chip">
-              <span className="icon">T</span>
-              <span className={`count ${stock.telegramMentions === 0 ? "zero" : ""}`}>{stock.telegramMentions}</span>
-            </span>
-            {hasLinks && (
+            {sources.map((source) => {
+              const count = stock.mentionCounts[source.id] ?? 0;
+              return (
+                <span key={source.id} className="social-chip" title={source.label}>
+                  <span className="icon">{source.icon}</span>
+                  <span className={`count ${count === 0 ? "zero" : ""}`}>{count}</span>
+                </span>
+              );
+            })}
+            {hasDetails && (
               <span className="expand-toggle"><ChevronIcon open={expanded} /></span>
             )}
           </div>
+          {stock.mentionSummary && stock.mentionSummary.weighted !== stock.totalMentions && (
+            <div className="cell-subline" title="Mentions weighted by sentiment, with spam and reposts discounted">
+              weighted {stock.mentionSummary.weighted}
+            </div>
+          )}
+        </td>
+        {/* News */}
+        <td>
+          <span className="social-chip" title="News articles and NSE announcements">
+            <span className="icon">📰</span>
+            <span className={`count ${stock.newsMentions === 0 ? "zero" : ""}`}>{stock.newsMentions ?? 0}</span>
+          </span>
         </td>
         {/* Status */}
         <td>
           <span className={`status-badge ${sc.className}`}>
             <span className="status-icon">{sc.icon}</span>
             {sc.label}
-            {stock.alertSent && <span className="alert-sent-dot" title="WhatsApp alert sent" />}
+            {stock.alertSent && (
+              <span
+                className="alert-sent-dot"
+                title={`Alert sent via ${(stock.alertDeliveries ?? []).filter((d) => d.delivered > 0).map((d) => d.channel).join(", ")}`}
+              />
+            )}
+            {stock.alertSuppressed && (
+              <span className="alert-held" title={`Not sent: ${stock.alertSuppressed}`}>⏳</span>
+            )}
           </span>
+          {stock.score !== undefined && <div className="cell-subline">score {stock.score}</div>}
         </td>
       </tr>
-      {/* Expandable mentions panel */}
-      {expanded && hasLinks && (
+      {/* Expandable details panel */}
+      {expanded && hasDetails && (
         <tr className="mentions-row">
-          <td colSpan={7}>
-            <MentionsPanel mentions={stock.mentions} />
+          <td colSpan={9}>
+            <ScorePanel stock={stock} />
+            <IntradayPanel stock={stock} />
+            <MentionsPanel mentions={stock.mentions} summary={stock.mentionSummary} sources={sources} />
+            <NewsPanel news={stock.news ?? []} />
           </td>
         </tr>
       )}
@@ -226,34 +520,117 @@ function StockRow({ stock, rank }: { stock: StockData; rank: number }) {
   );
 }
 
+// ─── Alert Scorecard ─────────────────────────────────────────
+function CheckpointCell({ checkpoint }: { checkpoint: OutcomeCheckpoint | null }) {
+  if (!checkpoint) return <span className="outcome-cell pending">…</span>;
+  return (
+    <span className={`outcome-cell ${checkpoint.favorable ? "win" : "loss"}`} title={formatPrice(checkpoint.price)}>
+      {checkpoint.movePercent >= 0 ? "+" : ""}{checkpoint.movePercent.toFixed(2)}%
+    </span>
+  );
+}
+
+function AlertScorecard({ data }: { data: OutcomesResponse }) {
+  if (data.outcomes.length === 0) return null;
+  const { summary } = data;
+  return (
+    <div className="table-container scorecard">
+      <div className="table-header-bar">
+        <span className="table-title">🎯 Alert Scorecard</span>
+        <span className="table-badge">
+          EOD win {summary.eodWinRate.toFixed(0)}% • Next day win {summary.nextDayWinRate.toFixed(0)}% • Level breached {summary.levelBreachRate.toFixed(0)}% • Pivot hit {summary.pivotReversionRate.toFixed(0)}%
+        </span>
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Ticker</th>
+              <th>Alerted</th>
+              <th className="right">Alert Price</th>
+              <th className="right">+30m</th>
+              <th className="right">+1h</th>
+              <th className="right">EOD</th>
+              <th className="right">Next Close</th>
+              <th>Level Breached</th>
+              <th>Pivot Hit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.outcomes.map((o) => (
+              <tr key={o.id}>
+                <td>
+                  <div className="cell-symbol">
+                    <span className="symbol-name">
+                      {o.ticker}
+                      <span className={`direction-badge ${o.direction}`}>{o.direction === "long" ? "LONG" : "SHORT"}</span>
+                    </span>
+                    <span className="symbol-fullname">{o.tradingDate}{o.status === "tracking" ? " • tracking" : ""}</span>
+                  </div>
+                </td>
+                <td>{formatTime(o.alertedAt)}</td>
+                <td className="right">{formatPrice(o.alertPrice)}</td>
+                <td className="right"><CheckpointCell checkpoint={o.after30m} /></td>
+                <td className="right"><CheckpointCell checkpoint={o.after1h} /></td>
+                <td className="right"><CheckpointCell checkpoint={o.endOfDay} /></td>
+                <td className="right"><CheckpointCell checkpoint={o.nextDayClose} /></td>
+                <td>
+                  <span className={`outcome-flag ${o.levelBreached ? "loss" : "win"}`}>{o.levelBreached ? "Yes" : "No"}</span>
+                </td>
+                <td>
+                  <span className={`outcome-flag ${o.revertedToPivot ? "win" : "pending"}`}>{o.revertedToPivot ? "Yes" : "No"}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 // ─── Loading / Empty / Error ─────────────────────────────────
-function LoadingState() {
+function LoadingState({ stage }: { stage: string | null }) {
   return (
     <div className="loading-container">
       <div className="loading-spinner" />
       <div>
-        <div className="loading-text">Scanning NSE markets…</div>
+        <div className="loading-text">{stage ?? "Scanning NSE markets"}…</div>
         <div className="loading-sub">
-          Fetching quotes • Delivery % • Pivot Points • Social Media • Sector Benchmark
+          Fetching quotes • Relative Volume • Delivery % • Pivot Points • Social Media • Sector Benchmark
         </div>
       </div>
     </div>
   );
 }
 
-function EmptyState() {
+function EmptyState({ minPump, mode, universe }: { minPump: number; mode: ScreenMode; universe?: string }) {
+  const move = mode === "dump" ? `dropped ≥${minPump}%` : mode === "both" ? `moved ≥${minPump}% either way` : `pumped ≥${minPump}%`;
   return (
     <div className="empty-state">
       <div className="empty-icon">📊</div>
-      <div className="empty-title">No Silent Surges Detected</div>
+      <div className="empty-title">No Silent {mode === "dump" ? "Dumps" : "Surges"} Detected</div>
       <div className="empty-desc">
-        No stocks in the Nifty 200 have pumped ≥4% today, or the market may be
+        No stocks in {universe ?? "the universe"} have {move} today, or the market may be
         closed. Try again during trading hours (9:15 AM – 3:30 PM IST).
       </div>
     </div>
   );
 }
 
+function NoScansState() {
+  return (
+    <div className="empty-state">
+      <div className="empty-icon">🕒</div>
+      <div className="empty-title">No Scans Yet</div>
+      <div className="empty-desc">
+        The scheduler scans during market hours (9:15 AM – 3:30 PM IST). Press Refresh to
+        run a scan now with the selected settings.
+      </div>
+    </div>
+  );
+}
+
 function ErrorState({ message, onRetry }: { message: string; onRetry: () => void }) {
   return (
     <div className="error-container">
@@ -272,35 +649,155 @@ export default function Dashboard() {
   const [data, setData] = useState<ScreenResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [outcomes, setOutcomes] = useState<OutcomesResponse | null>(null);
+  const [profiles, setProfiles] = useState<CriteriaProfile[]>([]);
+  const [profile, setProfile] = useState("default");
+  const [mode, setMode] = useState<ScreenMode>("surge");
+  const [universes, setUniverses] = useState<UniverseInfo[]>([]);
+  // Empty until /api/universes answers; the server then uses its default
+  const [universe, setUniverse] = useState("");
+  const [scheduler, setScheduler] = useState<SchedulerStatus | null>(null);
+  const [stage, setStage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const streamRef = useRef<EventSource | null>(null);
+  /** Id of the scan on screen, so polling only loads newer ones */
+  const shownScanRef = useRef<string | null>(null);
+
+  const fetchOutcomes = useCallback(async () => {
+    try {
+      const res = await fetch("/api/outcomes?limit=50");
+      if (!res.ok) return;
+      const json: OutcomesResponse = await res.json();
+      if (!json.error) setOutcomes(json);
+    } catch {
+      // The scorecard is secondary — keep showing the last good copy
+    }
+  }, []);
+
+  const fetchScheduler = useCallback(async () => {
+    try {
+      const res = await fetch("/api/scheduler");
+      if (!res.ok) return;
+      const json: SchedulerStatus = await res.json();
+      if (!json.error) setScheduler(json);
+    } catch {
+      // Scheduler status is informational only
+    }
+  }, []);
+
+  const startScan = useCallback(() => {
+    streamRef.current?.close();
+
+    // Rows arrive one by one over SSE; "done" replaces them with the sorted set
+    const universeParam = universe ? `&universe=${encodeURIComponent(universe)}` : "";
+    const stream = new EventSource(
+      `/api/screen/stream?profile=${encodeURIComponent(profile)}&mode=${mode}${universeParam}`,
+    );
+    streamRef.current = stream;
+    const finish = (message: string | null) => {
+      stream.close();
+      if (streamRef.current === stream) streamRef.current = null;
+      if (message) setError(message);
+      setLoading(false);
+      setStage(null);
+      setProgress(null);
+      fetchOutcomes();
+      fetchScheduler();
+    };
+    const on = <T extends ScreenStreamEvent["type"]>(
+      type: T,
+      handler: (event: Extract<ScreenStreamEvent, { type: T }>) => void,
+    ) => stream.addEventListener(type, (e) => handler(JSON.parse((e as MessageEvent<string>).data)));
 
-  const fetchData = useCallback(async () => {
+    on("progress", (event) => {
+      setLoading(true);
+      setError(null);
+      setStage(event.stage);
+    });
+    on("start", (event) => {
+      setData(event.response);
+      setStage("Enriching movers");
+      setProgress({ completed: 0, total: event.response.totalScanned });
+    });
+    on("row", (event) => {
+      setData((prev) => (prev ? { ...prev, stocks: [...prev.stocks, event.stock] } : prev));
+      setProgress({ completed: event.completed, total: event.total });
+    });
+    on("done", (event) => {
+      shownScanRef.current = event.response.scanId ?? null;
+      setData(event.response);
+      finish(null);
+    });
+    on("scan-error", (event) => finish(event.error));
+    // Native EventSource errors: connection refused, 400 response or a dropped stream
+    stream.onerror = () => finish("Lost connection to the scan stream");
+  }, [profile, mode, universe, fetchOutcomes, fetchScheduler]);
+
+  const fetchData = useCallback(() => {
     setLoading(true);
     setError(null);
+    setStage(null);
+    setProgress(null);
+    startScan();
+  }, [startScan]);
+
+  // The server's scheduler does the periodic scanning; the dashboard only
+  // shows its latest persisted scan and scans itself on Refresh
+  const loadLatestScan = useCallback(async () => {
     try {
-      const res = await fetch("/api/screen");
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const json: ScreenResponse = await res.json();
-      if (json.error) throw new Error(json.error);
-      setData(json);
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : "Unknown error";
-      setError(msg);
+      const res = await fetch("/api/history?limit=1");
+      if (!res.ok) return;
+      const json: HistoryResponse = await res.json();
+      const latest = json.scans?.[0];
+      // A manual scan in progress owns the table
+      if (!latest || latest.scanId === shownScanRef.current || streamRef.current) return;
+
+      const scanRes = await fetch(`/api/history/${encodeURIComponent(latest.scanId)}`);
+      if (!scanRes.ok || streamRef.current) return;
+      const scan: StoredScan = await scanRes.json();
+      shownScanRef.current = scan.scanId;
+      setData(scan);
+      setError(null);
+    } catch {
+      // Keep showing the last scan; the next poll tries again
     } finally {
-      setLoading(false);
+      if (!streamRef.current) setLoading(false);
+      fetchOutcomes();
+      fetchScheduler();
     }
+  }, [fetchOutcomes, fetchScheduler]);
+
+  useEffect(() => {
+    void loadLatestScan();
+    const interval = setInterval(loadLatestScan, 60 * 1000);
+    return () => {
+      clearInterval(interval);
+      streamRef.current?.close();
+    };
+  }, [loadLatestScan]);
+
+  useEffect(() => {
+    fetch("/api/universes")
+      .then((res) => res.json() as Promise<UniversesResponse>)
+      .then((json) => setUniverses(json.universes ?? []))
+      .catch(() => setUniverses([]));
   }, []);
 
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 5 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [fetchData]);
+    fetch("/api/profiles")
+      .then((res) => res.json() as Promise<ProfilesResponse>)
+      .then((json) => setProfiles(json.profiles ?? []))
+      .catch(() => setProfiles([]));
+  }, []);
+
+  const criteria = data?.criteria ?? CRITERIA;
 
   const alertCount = data?.stocks.filter((s) => s.status === "alert").length ?? 0;
   const watchCount = data?.stocks.filter((s) => s.status === "watch").length ?? 0;
-  const topPump = data?.stocks.length
-    ? Math.max(...data.stocks.map((s) => s.changePercent))
+  const topMove = data?.stocks.length
+    ? Math.max(...data.stocks.map((s) => Math.abs(s.changePercent)))
     : 0;
+  const shownMode = data?.mode ?? mode;
   const avgScore = data?.stocks.length
     ? data.stocks.reduce((sum, s) => sum + s.silenceScore, 0) / data.stocks.length
     : 0;
@@ -321,15 +818,71 @@ export default function Dashboard() {
         <div className="header-right">
           {data && (
             <div className="scan-info">
-              <div className="scan-time">Last scan: {formatTime(data.scannedAt)}</div>
+              <div className="scan-time">
+                Last scan: {formatTime(data.scannedAt)}
+                {data.session && (
+                  <span className={`session-badge ${data.session.phase}`}>{PHASE_LABELS[data.session.phase]}</span>
+                )}
+              </div>
               <div className="scan-count">
-                {data.totalScanned} screened • Nifty 50: {data.niftyChangePercent >= 0 ? "+" : ""}{data.niftyChangePercent.toFixed(2)}%
+                {data.totalScanned} screened{data.universe ? ` from ${data.universe.label}` : ""} • Nifty 50: {data.niftyChangePercent >= 0 ? "+" : ""}{data.niftyChangePercent.toFixed(2)}%
               </div>
+              {scheduler && (
+                <div
+                  className="scan-time"
+                  title={scheduler.lastCheck?.reason ?? `Profile "${scheduler.profile}", mode ${scheduler.mode}`}
+                >
+                  {describeScheduler(scheduler)}
+                </div>
+              )}
             </div>
           )}
-          <button className={`btn-refresh ${loading ? "loading" : ""}`} onClick={fetchData} disabled={loading}>
+          <select
+            className="profile-select"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as ScreenMode)}
+            disabled={loading}
+            title="Surge = gainers for shorts, Dump = losers for longs"
+          >
+            <option value="surge">Surge (short)</option>
+            <option value="dump">Dump (long)</option>
+            <option value="both">Both</option>
+          </select>
+          {universes.length > 0 && (
+            <select
+              className="profile-select"
+              value={universe || data?.universe?.id || ""}
+              onChange={(e) => setUniverse(e.target.value)}
+              disabled={loading}
+              title="Symbols to scan: an NSE index or a saved watchlist"
+            >
+              {!universe && !data?.universe && <option value="">Default universe</option>}
+              {universes.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.label}{u.kind === "watchlist" ? " (watchlist)" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+          {profiles.length > 0 && (
+            <select
+              className="profile-select"
+              value={profile}
+              onChange={(e) => setProfile(e.target.value)}
+              disabled={loading}
+              title={profiles.find((p) => p.name === profile)?.description}
+            >
+              {profiles.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.name}{p.builtIn ? "" : " (saved)"}
+                </option>
+              ))}
+            </select>
+          )}
+          <button className={`btn-refresh ${loading ? "loading" : ""}`} onClick={fetchData} disabled={loading}
+            title="Scan now with the selected mode, universe and profile">
             <RefreshIcon />
-            {loading ? "Scanning…" : "Refresh"}
+            {loading ? (progress ? `Scanning ${progress.completed}/${progress.total}` : "Scanning…") : "Refresh"}
           </button>
         </div>
       </header>
@@ -337,12 +890,22 @@ export default function Dashboard() {
       {/* ── Stats Bar ─────────────────────────────────────── */}
       {data && !loading && (
         <div className="stats-bar">
-          <StatCard label="Gainers Found (≥ 4%)" value={data.stocks.length} />
-          <StatCard label="🚨 Alerts (All Criteria)" value={alertCount} variant="red" />
-          <StatCard label="👁 Watch (Partial)" value={watchCount} variant="green" />
-          <StatCard label="Top Pump" value={`+${topPump.toFixed(2)}%`} variant="green" />
+          <StatCard label={`${shownMode === "dump" ? "Losers" : shownMode === "both" ? "Movers" : "Gainers"} Found (≥ ${criteria.MIN_PUMP_PERCENT}%)`} value={data.stocks.length} />
+          <StatCard label={`🚨 Alerts (score ≥ ${criteria.MIN_ALERT_SCORE ?? CRITERIA.MIN_ALERT_SCORE})`} value={alertCount} variant="red" />
+          <StatCard label={`👁 Watch (score ≥ ${criteria.MIN_WATCH_SCORE ?? CRITERIA.MIN_WATCH_SCORE})`} value={watchCount} variant="green" />
+          <StatCard label="Top Move" value={`${topMove.toFixed(2)}%`} variant="green" />
           <StatCard label="Avg Silence Score" value={avgScore.toFixed(1)} />
-          <StatCard label="WhatsApp Alerts Sent" value={data.alertsSent} />
+          <StatCard label="Alerts Delivered" value={data.alertsSent} />
+        </div>
+      )}
+
+      {/* ── Session Banner ────────────────────────────────── */}
+      {data?.session && data.session.phase !== "open" && !loading && (
+        <div className="session-banner">
+          {describeSession(data.session)} — prices are from the last session and alerts are held
+          {data.session.nextOpen && ` until ${new Date(data.session.nextOpen).toLocaleString("en-IN", {
+            weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit", hour12: true,
+          })}`}.
         </div>
       )}
 
@@ -351,8 +914,8 @@ export default function Dashboard() {
         <div className="table-header-bar">
           <span className="table-title">📡 Screened Stocks</span>
           <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
-            {data && data.stocks.some(s => s.totalMentions > 0) && (
-              <span className="table-hint">Click a row with mentions to view posts</span>
+            {data && data.stocks.some(s => s.totalMentions > 0 || s.newsMentions > 0) && (
+              <span className="table-hint">Click a row with mentions or news to view posts</span>
             )}
             {data && (
               <span className="table-badge">
@@ -362,11 +925,12 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {loading && <LoadingState />}
+        {loading && !data?.stocks.length && <LoadingState stage={stage} />}
         {error && !loading && <ErrorState message={error} onRetry={fetchData} />}
-        {!loading && !error && data && data.stocks.length === 0 && <EmptyState />}
+        {!loading && !error && !data && <NoScansState />}
+        {!loading && !error && data && data.stocks.length === 0 && <EmptyState minPump={criteria.MIN_PUMP_PERCENT} mode={shownMode} universe={data.universe?.label} />}
 
-        {!loading && !error && data && data.stocks.length > 0 && (
+        {!error && data && data.stocks.length > 0 && (
           <div style={{ overflowX: "auto" }}>
             <table className="data-table">
               <thead>
@@ -374,15 +938,17 @@ export default function Dashboard() {
                   <th className="right">#</th>
                   <th>Ticker</th>
                   <th className="right">% Change</th>
+                  <th className="right">RVOL</th>
                   <th className="right">Delivery %</th>
-                  <th className="right">R2 Proximity</th>
+                  <th className="right">{shownMode === "surge" ? pivotLabel(data.pivotTarget ?? DEFAULT_PIVOT_TARGET) : "Key Level"} Proximity</th>
                   <th>Social Mentions</th>
+                  <th>News</th>
                   <th>Status</th>
                 </tr>
               </thead>
               <tbody>
                 {data.stocks.map((stock, i) => (
-                  <StockRow key={stock.symbol} stock={stock} rank={i + 1} />
+                  <StockRow key={`${stock.direction}:${stock.symbol}`} stock={stock} rank={i + 1} maxDelivery={criteria.MAX_DELIVERY_PERCENT} maxDeliveryRatio={criteria.MAX_DELIVERY_RATIO ?? 0} sources={data.socialSources ?? []} />
                 ))}
               </tbody>
             </table>
@@ -390,6 +956,9 @@ export default function Dashboard() {
         )}
       </div>
 
+      {/* ── Alert Scorecard ───────────────────────────────── */}
+      {outcomes && <AlertScorecard data={outcomes} />}
+
       {/* ── Footer ────────────────────────────────────────── */}
       <footer className="footer">
         <span className="footer-text">SilentSurge v2.0 — Built for mean-reversion traders</span>
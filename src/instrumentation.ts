@@ -0,0 +1,11 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Server Startup
+// Next.js calls register() once when the server boots; it starts
+// the market-hours scan scheduler on the Node.js runtime.
+// ──────────────────────────────────────────────────────────────
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;
+    const { startScheduler } = await import("./lib/scheduler");
+    startScheduler();
+}
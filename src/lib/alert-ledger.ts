@@ -0,0 +1,149 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Alert Ledger
+// Durable record of which alerts went out, keyed by trading
+// date, side and ticker, so restarts never re-send an alert and
+// every trading day starts fresh.
+//
+// Within a day a ticker may alert again only when all of:
+//   • ALERT_COOLDOWN_MINUTES (default 60) have passed
+//   • price has moved ALERT_REALERT_MOVE_PERCENT (default 2) %
+//     further against the trade since the last alert
+//   • fewer than ALERT_MAX_PER_DAY (default 3) alerts went out
+// ──────────────────────────────────────────────────────────────
+
+import { updateJson } from "./store";
+import { tickerFromSymbol, tradingDateOf, type TradeDirection } from "./constants";
+
+const LEDGER_KEY = "alerts/ledger";
+
+const COOLDOWN_MS = Number(process.env.ALERT_COOLDOWN_MINUTES ?? 60) * 60 * 1000;
+const REALERT_MOVE_PERCENT = Number(process.env.ALERT_REALERT_MOVE_PERCENT ?? 2);
+const MAX_PER_DAY = Number(process.env.ALERT_MAX_PER_DAY ?? 3);
+/** Entries older than this many days are pruned */
+const RETENTION_DAYS = 30;
+
+interface LedgerEntry {
+    /** `${tradingDate}-${direction}-${ticker}` */
+    id: string;
+    ticker: string;
+    direction: TradeDirection;
+    tradingDate: string;
+    firstAlertedAt: string;
+    lastAlertedAt: string;
+    /** Alerts delivered for this ticker and side today */
+    count: number;
+    /** Price at the most recent alert */
+    lastPrice: number;
+}
+
+export interface AlertCandidate {
+    symbol: string;
+    direction: TradeDirection;
+    price: number;
+}
+
+/** The outcome of claimAlert; pass it to releaseAlert if delivery fails */
+export interface AlertClaim {
+    allowed: boolean;
+    /** Why the alert was held back (only when not allowed) */
+    reason?: string;
+    id: string;
+    /** Which alert of the day this is for the ticker and side (1 = first), once allowed */
+    sequence: number;
+    /** Ledger entry before the claim, restored by releaseAlert */
+    previous: LedgerEntry | null;
+}
+
+/**
+ * Decides whether the candidate may alert now and, if so, records it
+ * in the same atomic update so concurrent scans cannot both send.
+ * `now` is the scan's session time. If the store is unavailable the
+ * alert is allowed (better a duplicate than a missed signal).
+ */
+export async function claimAlert(
+    candidate: AlertCandidate,
+    now: Date = new Date(),
+): Promise<AlertClaim> {
+    const ticker = tickerFromSymbol(candidate.symbol);
+    const tradingDate = tradingDateOf(now);
+    const id = `${tradingDate}-${candidate.direction}-${ticker}`;
+    const claim: AlertClaim = { allowed: false, id, sequence: 0, previous: null };
+
+    try {
+        await updateJson<LedgerEntry[]>(LEDGER_KEY, [], (entries) => {
+            const existing = entries.find((e) => e.id === id) ?? null;
+            claim.previous = existing ? { ...existing } : null;
+            claim.reason = existing ? blockReason(existing, candidate, now) : undefined;
+            claim.allowed = claim.reason === undefined;
+            if (!claim.allowed) return entries;
+
+            const entry: LedgerEntry = {
+                id,
+                ticker,
+                direction: candidate.direction,
+                tradingDate,
+                firstAlertedAt: existing?.firstAlertedAt ?? now.toISOString(),
+                lastAlertedAt: now.toISOString(),
+                count: (existing?.count ?? 0) + 1,
+                lastPrice: candidate.price,
+            };
+            claim.sequence = entry.count;
+            return [...prune(entries.filter((e) => e.id !== id), now), entry];
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Ledger] Failed to check ${ticker}, allowing alert: ${message}`);
+        return { allowed: true, id, sequence: 1, previous: null };
+    }
+
+    return claim;
+}
+
+/**
+ * Undoes a claim whose alert reached nobody, so the next scan can
+ * try again.
+ */
+export async function releaseAlert(claim: AlertClaim): Promise<void> {
+    if (!claim.allowed) return;
+    try {
+        await updateJson<LedgerEntry[]>(LEDGER_KEY, [], (entries) => [
+            ...entries.filter((e) => e.id !== claim.id),
+            ...(claim.previous ? [claim.previous] : []),
+        ]);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Ledger] Failed to release ${claim.id}: ${message}`);
+    }
+}
+
+/** Returns why a repeat alert is blocked, or undefined if it may go out */
+function blockReason(
+    entry: LedgerEntry,
+    candidate: AlertCandidate,
+    now: Date,
+): string | undefined {
+    if (entry.count >= MAX_PER_DAY) {
+        return `daily limit of ${MAX_PER_DAY} alerts reached`;
+    }
+
+    const sinceLast = now.getTime() - Date.parse(entry.lastAlertedAt);
+    if (sinceLast < COOLDOWN_MS) {
+        const minutesLeft = Math.ceil((COOLDOWN_MS - sinceLast) / 60000);
+        return `cooldown, ${minutesLeft}m left`;
+    }
+
+    // Shorts re-alert on a further rise, longs on a further fall
+    const move = ((candidate.price - entry.lastPrice) / entry.lastPrice) * 100;
+    const further = candidate.direction === "long" ? -move : move;
+    if (further < REALERT_MOVE_PERCENT) {
+        return `needs another ${REALERT_MOVE_PERCENT}% move since last alert`;
+    }
+
+    return undefined;
+}
+
+function prune(entries: LedgerEntry[], now: Date): LedgerEntry[] {
+    const cutoff = new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const cutoffDate = tradingDateOf(cutoff);
+    return entries.filter((e) => e.tradingDate >= cutoffDate);
+}
@@ -0,0 +1,50 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Email Alert Channel
+// Sends the alert over SMTP to every address in ALERT_EMAIL_TO.
+// Configure SMTP_HOST, SMTP_PORT (default 587), SMTP_USER,
+// SMTP_PASS, SMTP_SECURE ("true" for implicit TLS on 465) and
+// ALERT_EMAIL_FROM (default SMTP_USER).
+// ──────────────────────────────────────────────────────────────
+
+import nodemailer, { type Transporter } from "nodemailer";
+import { formatAlertHeadline, formatAlertText } from "./format";
+import type { AlertChannel } from "./types";
+
+let _transport: Transporter | null = null;
+
+function getTransport(): Transporter {
+    if (_transport) return _transport;
+    const port = Number(process.env.SMTP_PORT ?? 587);
+    _transport = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE === "true" || port === 465,
+        auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+            : undefined,
+    });
+    return _transport;
+}
+
+export const emailChannel: AlertChannel = {
+    id: "email",
+
+    recipients() {
+        if (!process.env.SMTP_HOST) return [];
+        if (!process.env.ALERT_EMAIL_FROM && !process.env.SMTP_USER) return [];
+        return (process.env.ALERT_EMAIL_TO ?? "")
+            .split(",")
+            .map((to) => to.trim())
+            .filter(Boolean);
+    },
+
+    async send(alert, to) {
+        await getTransport().sendMail({
+            from: process.env.ALERT_EMAIL_FROM ?? process.env.SMTP_USER,
+            to,
+            // Subjects are plain text; drop the leading emoji
+            subject: formatAlertHeadline(alert).replace(/^\S+\s/, ""),
+            text: formatAlertText(alert),
+        });
+    },
+};
@@ -0,0 +1,78 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Alert Text
+// The human-readable alert shared by every text channel.
+// ──────────────────────────────────────────────────────────────
+
+import type { AlertPayload } from "./types";
+
+/** One-line headline, also used as the email subject */
+export function formatAlertHeadline(alert: AlertPayload): string {
+    const change = `${alert.changePercent >= 0 ? "+" : ""}${alert.changePercent.toFixed(2)}%`;
+    const level = alert.keyLevel?.level ?? (alert.direction === "long" ? "S2" : "R2");
+
+    // State what was actually seen: an alert needs a score, not zero news
+    const news = alert.newsMentions === 0
+        ? "no news"
+        : `${alert.newsMentions} news item${alert.newsMentions !== 1 ? "s" : ""}`;
+    const delivery = alert.deliveryPercent >= 0
+        ? `${alert.deliveryPercent.toFixed(1)}% delivery`
+        : "delivery n/a";
+    const context = `score ${alert.score}/100, ${news}, ${delivery}`;
+
+    return alert.direction === "long"
+        ? `🟢 SilentDump Alert: ${alert.ticker} down ${change} at ${level} support (${context}).`
+        : `🚨 SilentSurge Alert: ${alert.ticker} up ${change} at ${level} resistance (${context}).`;
+}
+
+/** Full multi-line alert body */
+export function formatAlertText(alert: AlertPayload): string {
+    const change = `${alert.changePercent >= 0 ? "+" : ""}${alert.changePercent.toFixed(2)}%`;
+    const level = alert.keyLevel;
+    const signed = (n: number) => `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`;
+    const volume = alert.relativeVolume;
+    const baseline = alert.deliveryBaseline;
+    const fno = alert.fno;
+    const circuit = alert.direction === "long"
+        ? { label: "Lower circuit", price: alert.restrictions?.lowerCircuit, away: alert.restrictions?.lowerCircuitDistance }
+        : { label: "Upper circuit", price: alert.restrictions?.upperCircuit, away: alert.restrictions?.upperCircuitDistance };
+
+    return [
+        formatAlertHeadline(alert),
+        ``,
+        `📊 Details:`,
+        `• Price: ₹${alert.price.toFixed(2)} (${change})`,
+        `• Score: ${alert.score}/100`,
+        alert.deliveryPercent >= 0
+            ? `• Delivery %: ${alert.deliveryPercent.toFixed(1)}%`
+            : `• Delivery %: unavailable`,
+        ...(baseline?.ratio != null
+            ? [`• Delivery vs normal: ${baseline.ratio.toFixed(2)}x its 20-day avg of ${baseline.average20.toFixed(1)}%`]
+            : []),
+        level
+            ? `• ${level.level} (${level.method}) ₹${level.price.toFixed(2)}, ${level.proximity.toFixed(2)}% away`
+            : `• Key level: unavailable`,
+        `• vs Nifty 50: ${signed(alert.marketOutperformance)}`,
+        ...(alert.sector ? [`• vs ${alert.sector}: ${signed(alert.sectorOutperformance)}`] : []),
+        volume
+            ? `• Volume: ${volume.rvol.toFixed(1)}x 20-day avg${volume.rvolTimeOfDay !== null ? `, ${volume.rvolTimeOfDay.toFixed(1)}x for this time of day` : ""}`
+            : `• Volume: history unavailable`,
+        ...(fno
+            ? [fno.eligible
+                ? `• F&O: ${[
+                    fno.buildup?.replace("-", " ") ?? "no OI change",
+                    fno.futuresOiChangePercent !== null ? `OI ${signed(fno.futuresOiChangePercent)}` : null,
+                    fno.pcr !== null ? `PCR ${fno.pcr.toFixed(2)}` : null,
+                ].filter(Boolean).join(", ")}`
+                : `• F&O: not in F&O segment`]
+            : []),
+        ...(circuit.price && circuit.away != null
+            ? [`• ${circuit.label}: ₹${circuit.price.toFixed(2)}, ${circuit.away.toFixed(2)}% away`]
+            : []),
+        alert.weightedMentions !== alert.totalMentions
+            ? `• Social Mentions: ${alert.totalMentions} (${alert.weightedMentions} weighted)`
+            : `• Social Mentions: ${alert.totalMentions}`,
+        `• News: ${alert.newsMentions}`,
+        ``,
+        `⚡ Mean-reversion ${alert.direction} candidate identified by SilentSurge.`,
+    ].join("\n");
+}
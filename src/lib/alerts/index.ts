@@ -0,0 +1,74 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Alert Dispatcher
+// Fans one alert out to every enabled channel and reports what
+// each one delivered. A channel is enabled when it has
+// recipients configured; ALERT_CHANNELS (comma-separated ids)
+// can further restrict which channels are used.
+// ──────────────────────────────────────────────────────────────
+
+import type { AlertDelivery } from "../constants";
+import type { AlertChannel, AlertPayload } from "./types";
+import { whatsappChannel } from "./whatsapp";
+import { telegramChannel } from "./telegram";
+import { emailChannel } from "./email";
+import { slackChannel, discordChannel, webhookChannel } from "./webhooks";
+
+export type { AlertChannel, AlertPayload } from "./types";
+
+const CHANNELS: AlertChannel[] = [
+    whatsappChannel,
+    telegramChannel,
+    emailChannel,
+    slackChannel,
+    discordChannel,
+    webhookChannel,
+];
+
+/** Channels allowed by ALERT_CHANNELS that have recipients configured */
+export function getEnabledChannels(): AlertChannel[] {
+    const allowed = (process.env.ALERT_CHANNELS ?? "")
+        .split(",")
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean);
+
+    return CHANNELS.filter(
+        (c) =>
+            (allowed.length === 0 || allowed.includes(c.id)) &&
+            c.recipients().length > 0,
+    );
+}
+
+/**
+ * Sends the alert to every recipient of every enabled channel in
+ * parallel. Never throws; failures are reported per channel.
+ */
+export async function dispatchAlert(alert: AlertPayload): Promise<AlertDelivery[]> {
+    return Promise.all(
+        getEnabledChannels().map(async (channel) => {
+            const recipients = channel.recipients();
+            const results = await Promise.allSettled(
+                recipients.map((r) => channel.send(alert, r)),
+            );
+
+            const errors = results
+                .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+                .map((r) => (r.reason instanceof Error ? r.reason.message : String(r.reason)));
+            const delivered = recipients.length - errors.length;
+
+            if (delivered > 0) {
+                console.log(`[Alerts] ✅ ${channel.id} alert sent for ${alert.ticker} (${delivered}/${recipients.length})`);
+            }
+            for (const message of errors) {
+                console.warn(`[Alerts] ${channel.id} send failed for ${alert.ticker}: ${message}`);
+            }
+
+            return {
+                channel: channel.id,
+                attempted: recipients.length,
+                delivered,
+                errors,
+                sentAt: new Date().toISOString(),
+            };
+        }),
+    );
+}
@@ -0,0 +1,46 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Telegram Alert Channel
+// Posts the alert via the Bot API's sendMessage to every chat in
+// TELEGRAM_ALERT_CHAT_IDS. Uses TELEGRAM_ALERT_BOT_TOKEN, or the
+// TELEGRAM_BOT_TOKEN already used for mention search.
+// ──────────────────────────────────────────────────────────────
+
+import { formatAlertText } from "./format";
+import type { AlertChannel } from "./types";
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+
+function botToken(): string | null {
+    const token = process.env.TELEGRAM_ALERT_BOT_TOKEN ?? process.env.TELEGRAM_BOT_TOKEN;
+    if (!token || token === "your_telegram_bot_token_here") return null;
+    return token;
+}
+
+export const telegramChannel: AlertChannel = {
+    id: "telegram",
+
+    recipients() {
+        if (!botToken()) return [];
+        return (process.env.TELEGRAM_ALERT_CHAT_IDS ?? "")
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean);
+    },
+
+    async send(alert, chatId) {
+        const res = await fetch(`${TELEGRAM_API_BASE}/bot${botToken()}/sendMessage`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                chat_id: chatId,
+                text: formatAlertText(alert),
+                disable_web_page_preview: true,
+            }),
+        });
+
+        const json: { ok?: boolean; description?: string } = await res.json().catch(() => ({}));
+        if (!res.ok || !json.ok) {
+            throw new Error(`Telegram HTTP ${res.status}: ${json.description ?? "sendMessage failed"}`);
+        }
+    },
+};
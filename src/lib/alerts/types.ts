@@ -0,0 +1,62 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Alert Channel Contract
+// The shape every delivery channel (WhatsApp, Telegram, email,
+// webhooks…) implements so one alert fans out to all of them.
+// ──────────────────────────────────────────────────────────────
+
+import type {
+    DeliveryBaseline,
+    FnoContext,
+    PivotLevelHit,
+    RelativeVolume,
+    TradeDirection,
+    TradingRestrictions,
+} from "../constants";
+
+/** Everything a channel needs to describe one alert */
+export interface AlertPayload {
+    ticker: string;
+    symbol: string;
+    name: string;
+    direction: TradeDirection;
+    price: number;
+    changePercent: number;
+    deliveryPercent: number;
+    /** Delivery vs the stock's own history, null if there is none */
+    deliveryBaseline: DeliveryBaseline | null;
+    /** Resistance (shorts) or support (longs) the setup fired at */
+    keyLevel: PivotLevelHit | null;
+    /** % vs the Nifty 50 */
+    marketOutperformance: number;
+    /** Sectoral index label, null if the stock has none */
+    sector: string | null;
+    /** % vs the sectoral index (vs the Nifty 50 when sector is null) */
+    sectorOutperformance: number;
+    /** Today's volume vs normal, null if volume history is unavailable */
+    relativeVolume: RelativeVolume | null;
+    /** F&O standing, null if unknown */
+    fno: FnoContext | null;
+    /** Circuit limits and surveillance, null if unknown */
+    restrictions: TradingRestrictions | null;
+    /** Composite score, 0–100 */
+    score: number;
+    totalMentions: number;
+    /** Mentions after sentiment, spam and duplicate weighting */
+    weightedMentions: number;
+    newsMentions: number;
+    triggeredAt: string;
+}
+
+export interface AlertChannel {
+    /** Short identifier, e.g. "slack" */
+    readonly id: string;
+
+    /**
+     * Recipients configured for this channel (numbers, chat ids,
+     * addresses or webhook URLs). Empty means the channel is off.
+     */
+    recipients(): string[];
+
+    /** Delivers the alert to one recipient. Throws on failure. */
+    send(alert: AlertPayload, recipient: string): Promise<void>;
+}
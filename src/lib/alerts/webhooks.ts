@@ -0,0 +1,78 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Webhook Alert Channels
+// Slack and Discord incoming webhooks (SLACK_WEBHOOK_URLS,
+// DISCORD_WEBHOOK_URLS), plus a generic JSON webhook
+// (ALERT_WEBHOOK_URLS) signed with ALERT_WEBHOOK_SECRET.
+//
+// Generic webhook requests carry:
+//   X-SilentSurge-Timestamp  unix seconds
+//   X-SilentSurge-Signature  sha256=<hex HMAC of "<timestamp>.<body>">
+// Receivers should recompute the HMAC and reject stale timestamps.
+// ──────────────────────────────────────────────────────────────
+
+import { createHmac } from "crypto";
+import { formatAlertText } from "./format";
+import type { AlertChannel } from "./types";
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+function urlList(name: string): string[] {
+    return (process.env[name] ?? "")
+        .split(",")
+        .map((url) => url.trim())
+        .filter((url) => /^https?:\/\//.test(url));
+}
+
+async function postJson(
+    url: string,
+    body: string,
+    headers: Record<string, string> = {},
+): Promise<void> {
+    const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+        throw new Error(`HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+    }
+}
+
+export const slackChannel: AlertChannel = {
+    id: "slack",
+    recipients: () => urlList("SLACK_WEBHOOK_URLS"),
+    send: (alert, url) => postJson(url, JSON.stringify({ text: formatAlertText(alert) })),
+};
+
+export const discordChannel: AlertChannel = {
+    id: "discord",
+    recipients: () => urlList("DISCORD_WEBHOOK_URLS"),
+    send: (alert, url) => postJson(url, JSON.stringify({ content: formatAlertText(alert) })),
+};
+
+export const webhookChannel: AlertChannel = {
+    id: "webhook",
+
+    recipients() {
+        // Unsigned payloads could be forged, so a secret is required
+        if (!process.env.ALERT_WEBHOOK_SECRET) return [];
+        return urlList("ALERT_WEBHOOK_URLS");
+    },
+
+    async send(alert, url) {
+        const body = JSON.stringify({ event: "alert", alert });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        await postJson(url, body, {
+            "X-SilentSurge-Timestamp": timestamp,
+            "X-SilentSurge-Signature": `sha256=${sign(timestamp, body)}`,
+        });
+    },
+};
+
+/** Hex HMAC-SHA256 of "<timestamp>.<body>" with ALERT_WEBHOOK_SECRET */
+function sign(timestamp: string, body: string): string {
+    return createHmac("sha256", process.env.ALERT_WEBHOOK_SECRET ?? "")
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+}
@@ -0,0 +1,65 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — WhatsApp Alert Channel via Twilio
+// Sends the alert text to every number in WHATSAPP_TO
+// (comma-separated, e.g. "whatsapp:+919876543210").
+// ──────────────────────────────────────────────────────────────
+
+import { formatAlertText } from "./format";
+import type { AlertChannel } from "./types";
+
+/**
+ * Sends WhatsApp messages via Twilio's REST API.
+ * Uses native fetch — no Twilio SDK required.
+ * Disabled if the Twilio env vars are not configured.
+ */
+export const whatsappChannel: AlertChannel = {
+    id: "whatsapp",
+
+    recipients() {
+        const accountSid = process.env.TWILIO_ACCOUNT_SID;
+        const authToken = process.env.TWILIO_AUTH_TOKEN;
+        const from = process.env.TWILIO_WHATSAPP_FROM; // e.g. "whatsapp:+14155238886"
+
+        if (!accountSid || !authToken || !from) return [];
+
+        // Skip placeholder values
+        if (
+            accountSid === "your_twilio_account_sid" ||
+            authToken === "your_twilio_auth_token"
+        ) {
+            return [];
+        }
+
+        return (process.env.WHATSAPP_TO ?? "")
+            .split(",")
+            .map((to) => to.trim())
+            .filter(Boolean);
+    },
+
+    async send(alert, to) {
+        const accountSid = process.env.TWILIO_ACCOUNT_SID!;
+        const authToken = process.env.TWILIO_AUTH_TOKEN!;
+        const from = process.env.TWILIO_WHATSAPP_FROM!;
+
+        const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+        const credentials = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+
+        const params = new URLSearchParams();
+        params.set("From", from);
+        params.set("To", to);
+        params.set("Body", formatAlertText(alert));
+
+        const res = await fetch(url, {
+            method: "POST",
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: params.toString(),
+        });
+
+        if (!res.ok) {
+            throw new Error(`Twilio HTTP ${res.status}: ${await res.text()}`);
+        }
+    },
+};
@@ -0,0 +1,216 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Mention Aliases
+// Posts rarely use the bare ticker: people write "Reliance
+// Industries", "RIL", "Bajaj Finance" or "रिलायंस इंडस्ट्रीज". Every social source and
+// the news feeds match text through the aliases here:
+//   • built-in company names, nicknames and Hindi spellings
+//   • the company name from the quote, minus its legal suffix
+//   • extra aliases saved under the "social/aliases" store key
+//     ({ "RELIANCE": ["Mukesh bhai stock"] })
+// Ambiguity rules keep ordinary words from matching:
+//   • a ticker that is a word or ≤ 3 letters ("IDEA", "BEL") only
+//     counts in capitals or as $IDEA / #IDEA
+//   • a strict ticker ("BSE", the exchange) only as $BSE / #BSE
+//   • short aliases ("RIL", "HUL") only in capitals, as written
+//   • group names and shared prefixes ("Tata", "HDFC", "SBI",
+//     "Reliance") are never aliases, as they name several listed
+//     companies ("SBI" would also match SBI Life and SBI Card)
+// ──────────────────────────────────────────────────────────────
+
+import { readJson } from "./store";
+
+/** What a source needs to find posts or articles about one stock */
+export interface MentionMatcher {
+    ticker: string;
+    /** Names to send to sources with their own search syntax */
+    terms: string[];
+    /** Whether a post's text refers to the stock */
+    test(text: string): boolean;
+}
+
+interface AliasEntry {
+    aliases: string[];
+    /** The ticker only counts with a $ or # in front */
+    strict?: boolean;
+}
+
+const ALIASES: Record<string, AliasEntry> = {
+    RELIANCE: { aliases: ["Reliance Industries", "RIL", "रिलायंस इंडस्ट्रीज"] },
+    TCS: { aliases: ["Tata Consultancy", "Tata Consultancy Services", "टीसीएस"] },
+    HDFCBANK: { aliases: ["HDFC Bank", "एचडीएफसी बैंक"] },
+    ICICIBANK: { aliases: ["ICICI Bank", "आईसीआईसीआई बैंक"] },
+    INFY: { aliases: ["Infosys", "Infy", "इंफोसिस"] },
+    SBIN: { aliases: ["State Bank of India", "State Bank", "स्टेट बैंक"] },
+    BHARTIARTL: { aliases: ["Bharti Airtel", "Airtel", "एयरटेल"] },
+    ITC: { aliases: ["आईटीसी"] },
+    HINDUNILVR: { aliases: ["Hindustan Unilever", "HUL"] },
+    LT: { aliases: ["Larsen & Toubro", "Larsen and Toubro", "L&T", "एलएंडटी"], strict: true },
+    KOTAKBANK: { aliases: ["Kotak Mahindra Bank", "Kotak Bank", "Kotak"] },
+    AXISBANK: { aliases: ["Axis Bank", "एक्सिस बैंक"] },
+    BAJFINANCE: { aliases: ["Bajaj Finance", "Bajaj Fin", "बजाज फाइनेंस"] },
+    BAJAJFINSV: { aliases: ["Bajaj Finserv", "बजाज फिनसर्व"] },
+    "BAJAJ-AUTO": { aliases: ["Bajaj Auto", "बजाज ऑटो"] },
+    MARUTI: { aliases: ["Maruti Suzuki", "Maruti", "मारुति"] },
+    "M&M": { aliases: ["Mahindra & Mahindra", "Mahindra and Mahindra"] },
+    TATAMOTORS: { aliases: ["Tata Motors", "टाटा मोटर्स"] },
+    TATASTEEL: { aliases: ["Tata Steel", "टाटा स्टील"] },
+    TATAPOWER: { aliases: ["Tata Power", "टाटा पावर"] },
+    SUNPHARMA: { aliases: ["Sun Pharma", "Sun Pharmaceutical", "सन फार्मा"] },
+    ADANIENT: { aliases: ["Adani Enterprises", "Adani Ent", "अदाणी एंटरप्राइजेज", "अडानी एंटरप्राइजेज"] },
+    ADANIPORTS: { aliases: ["Adani Ports", "अदाणी पोर्ट्स", "अडानी पोर्ट्स"] },
+    ADANIPOWER: { aliases: ["Adani Power", "अदाणी पावर", "अडानी पावर"] },
+    ASIANPAINT: { aliases: ["Asian Paints"] },
+    HCLTECH: { aliases: ["HCL Tech", "HCL Technologies"] },
+    TECHM: { aliases: ["Tech Mahindra"] },
+    ULTRACEMCO: { aliases: ["UltraTech Cement", "UltraTech"] },
+    NTPC: { aliases: ["एनटीपीसी"] },
+    POWERGRID: { aliases: ["Power Grid", "पावर ग्रिड"] },
+    ONGC: { aliases: ["ओएनजीसी"] },
+    COALINDIA: { aliases: ["Coal India", "कोल इंडिया"] },
+    NESTLEIND: { aliases: ["Nestle India", "Nestle"] },
+    HEROMOTOCO: { aliases: ["Hero MotoCorp", "Hero Moto"] },
+    EICHERMOT: { aliases: ["Eicher Motors", "Royal Enfield"] },
+    DRREDDY: { aliases: ["Dr Reddy's", "Dr Reddys", "Dr. Reddy's"] },
+    DIVISLAB: { aliases: ["Divi's Labs", "Divis Lab", "Divi's Laboratories"] },
+    APOLLOHOSP: { aliases: ["Apollo Hospitals", "Apollo Hospital"] },
+    JSWSTEEL: { aliases: ["JSW Steel"] },
+    INDUSINDBK: { aliases: ["IndusInd Bank", "IndusInd"] },
+    SBILIFE: { aliases: ["SBI Life"] },
+    HDFCLIFE: { aliases: ["HDFC Life"] },
+    TATACONSUM: { aliases: ["Tata Consumer"] },
+    SHRIRAMFIN: { aliases: ["Shriram Finance"] },
+    LICI: { aliases: ["LIC", "Life Insurance Corporation", "एलआईसी"] },
+    IDEA: { aliases: ["Vodafone Idea", "Voda Idea", "वोडाफोन आइडिया"] },
+    BEL: { aliases: ["Bharat Electronics", "भारत इलेक्ट्रॉनिक्स"] },
+    BHEL: { aliases: ["Bharat Heavy Electricals", "भेल"] },
+    HAL: { aliases: ["Hindustan Aeronautics", "एचएएल"] },
+    SAIL: { aliases: ["Steel Authority of India", "Steel Authority"] },
+    OIL: { aliases: ["Oil India"] },
+    INDIGO: { aliases: ["InterGlobe Aviation", "InterGlobe"] },
+    IRCTC: { aliases: ["आईआरसीटीसी"] },
+    IRFC: { aliases: ["Indian Railway Finance", "आईआरएफसी"] },
+    YESBANK: { aliases: ["Yes Bank", "यस बैंक"] },
+    PNB: { aliases: ["Punjab National Bank"] },
+    BANKBARODA: { aliases: ["Bank of Baroda", "BoB"] },
+    DMART: { aliases: ["Avenue Supermarts", "D-Mart"] },
+    ETERNAL: { aliases: ["Zomato", "ज़ोमैटो", "जोमैटो"] },
+    PAYTM: { aliases: ["One 97 Communications", "One97"] },
+    NYKAA: { aliases: ["FSN E-Commerce"] },
+    SUZLON: { aliases: ["सुजलॉन"] },
+    BSE: { aliases: ["BSE Ltd", "BSE Limited"], strict: true },
+    MCX: { aliases: ["Multi Commodity Exchange"], strict: true },
+};
+
+/** Tickers that are also everyday English or Hinglish words */
+const COMMON_WORDS = new Set([
+    "IDEA", "BEL", "SAIL", "OIL", "RAIN", "FACT", "ACE", "SKY", "ORIENT", "TRIDENT",
+    "INDIGO", "CAMPUS", "BEST", "VIP", "GOLD", "HOME", "TITAN", "ATUL", "ALOK",
+]);
+
+/** Group names and prefixes shared by several listed companies */
+const GROUP_NAMES = new Set([
+    "tata", "adani", "bajaj", "birla", "hdfc", "mahindra", "reliance", "reliance group", "jsw",
+    "hinduja", "icici", "sbi", "hcl", "vodafone", "रिलायंस",
+]);
+
+/** Saved aliases are re-read at most once a minute */
+let _saved: { value: Record<string, string[]>; fetchedAt: number } | null = null;
+const SAVED_TTL_MS = 60 * 1000;
+const SAVED_KEY = "social/aliases";
+
+/**
+ * Returns the matcher for `ticker`, built from its built-in and
+ * saved aliases plus `companyName` when given.
+ */
+export async function getMentionMatcher(ticker: string, companyName?: string): Promise<MentionMatcher> {
+    const symbol = ticker.toUpperCase();
+    const entry = ALIASES[symbol];
+    const saved = (await getSavedAliases())[symbol] ?? [];
+
+    const names = [...(entry?.aliases ?? []), ...saved];
+    const fromQuote = companyName ? stripLegalSuffix(companyName) : "";
+    if (fromQuote.length >= 4) names.push(fromQuote);
+
+    const terms = [...new Set(names.map((n) => n.trim()).filter(Boolean))]
+        .filter((n) => n.toUpperCase() !== symbol && !GROUP_NAMES.has(n.toLowerCase()));
+
+    const patterns = [...tickerPatterns(symbol, entry?.strict ?? false), ...terms.map(aliasPattern)];
+    return {
+        ticker: symbol,
+        terms,
+        test: (text) => patterns.some((p) => p.test(text)),
+    };
+}
+
+/** A ticker that reads as a word is only trusted in capitals or tagged */
+export function isAmbiguousTicker(ticker: string): boolean {
+    const letters = ticker.replace(/[^A-Z]/gi, "");
+    return letters.length <= 3 || COMMON_WORDS.has(ticker.toUpperCase());
+}
+
+/** Written in a non-Latin script, e.g. a Devanagari alias */
+export function isNonLatin(alias: string): boolean {
+    return /[^\u0000-\u024f]/.test(alias);
+}
+
+function tickerPatterns(ticker: string, strict: boolean): RegExp[] {
+    const escaped = escapeRegex(ticker);
+    const end = "(?=[\\s,;:.!?)\\]'\"]|$)";
+    const tagged = new RegExp(`[$#]${escaped}${end}`, "i");
+    if (strict) return [tagged];
+    // Case-sensitive, so "IDEA" matches but "good idea" does not
+    if (isAmbiguousTicker(ticker)) return [tagged, new RegExp(`(?:^|[\\s(])${escaped}${end}`)];
+    return [new RegExp(`(?:^|[\\s$#(])${escaped}${end}`, "i")];
+}
+
+/**
+ * Short or word-like Latin aliases ("RIL", "BoB") must appear as
+ * written; longer ones match in any case with flexible spacing.
+ * Non-Latin aliases match exactly, bounded by non-letters.
+ */
+function aliasPattern(alias: string): RegExp {
+    const body = escapeRegex(alias).replace(/\s+/g, "\\s+");
+    if (isNonLatin(alias)) {
+        return new RegExp(`(?<![\\p{L}\\p{M}])${body}(?![\\p{L}\\p{M}])`, "u");
+    }
+    const caseSensitive = alias.replace(/[^a-z]/gi, "").length <= 3 || COMMON_WORDS.has(alias.toUpperCase());
+    return new RegExp(`(?<![\\w&])${body}(?![\\w&])`, caseSensitive ? "" : "i");
+}
+
+/**
+ * Saved aliases by ticker. An unreadable store entry is logged and
+ * treated as empty (until the next re-read), so the built-in aliases
+ * still match and the scan goes on.
+ */
+async function getSavedAliases(): Promise<Record<string, string[]>> {
+    if (_saved && Date.now() - _saved.fetchedAt < SAVED_TTL_MS) return _saved.value;
+
+    const value: Record<string, string[]> = {};
+    try {
+        const raw = await readJson<Record<string, unknown>>(SAVED_KEY, {});
+        for (const [ticker, aliases] of Object.entries(raw ?? {})) {
+            if (!Array.isArray(aliases)) {
+                console.warn(`[Aliases] Ignoring saved aliases for ${ticker}: expected a list`);
+                continue;
+            }
+            value[ticker.toUpperCase()] = aliases.map(String).filter((a) => a.trim().length >= 2);
+        }
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Aliases] Failed to read saved aliases, using built-in ones only: ${message}`);
+    }
+    _saved = { value, fetchedAt: Date.now() };
+    return value;
+}
+
+/** "Reliance Industries Ltd." → "Reliance Industries" */
+function stripLegalSuffix(name: string): string {
+    return name
+        .replace(/\b(ltd|limited|corp|corporation|inc|co|company)\b\.?/gi, "")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function escapeRegex(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
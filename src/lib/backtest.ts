@@ -0,0 +1,455 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Backtesting Engine
+// Replays historical daily/intraday bars for the watchlist,
+// scores them with the same composite score, pivot math and
+// alert threshold as the live screener, and measures how the
+// resulting short signals performed afterwards.
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider, type BarInterval } from "./market-data";
+import { computePivotLevels, proximityPercent } from "./pivots";
+import { scoreStock, statusForScore } from "./scoring";
+import {
+    CRITERIA,
+    DEFAULT_PIVOT_TARGET,
+    DEFAULT_SCORE_WEIGHTS,
+    NIFTY_200_SYMBOLS,
+    NIFTY_50_SYMBOL,
+    tickerFromSymbol,
+    tradingDateOf,
+    type CriteriaThresholds,
+    type PivotTarget,
+    type ScoreWeights,
+} from "./constants";
+
+export type BacktestInterval = BarInterval;
+
+export interface BacktestOptions {
+    /** First trading date to evaluate (YYYY-MM-DD, IST) */
+    from: string;
+    /** Last trading date to evaluate (YYYY-MM-DD, IST) */
+    to: string;
+    /**
+     * Bar size used to find the entry. "1d" enters at the close of the
+     * signal day; intraday intervals enter on the first bar that scores
+     * as an alert (Yahoo keeps ~60 days of intraday history;
+     * the NSE provider only has the current session).
+     */
+    interval?: BacktestInterval;
+    /** Symbols to replay (default: the Nifty 200 watchlist) */
+    symbols?: string[];
+    /** Threshold overrides; unspecified keys fall back to CRITERIA */
+    criteria?: Partial<CriteriaThresholds>;
+    /** Resistance level for the proximity check (default: classic R2) */
+    pivot?: PivotTarget;
+    /** Factor weights; unset factors use DEFAULT_SCORE_WEIGHTS */
+    weights?: Partial<ScoreWeights>;
+}
+
+/** Short-side return (%) from entry — positive = the short made money */
+export interface ForwardReturns {
+    /** Entry → same-day close. null for daily bars (entry is the close). */
+    close: number | null;
+    /** Entry → next session's open */
+    nextOpen: number | null;
+    /** Entry → next session's close */
+    nextClose: number | null;
+}
+
+export interface BacktestSignal {
+    symbol: string;
+    ticker: string;
+    /** Trading date of the signal (YYYY-MM-DD) */
+    date: string;
+    /** Timestamp of the bar the entry was taken on */
+    entryTime: string;
+    entryPrice: number;
+    changePercent: number;
+    niftyChangePercent: number;
+    outperformance: number;
+    /** Price of the target pivot level */
+    resistanceLevel: number;
+    resistanceProximity: number;
+    /** Composite score (0–100) of the replayable factors at entry */
+    score: number;
+    returns: ForwardReturns;
+    /** Worst move against the short (%) from entry through next close */
+    adverseExcursion: number | null;
+}
+
+export interface HorizonStats {
+    /** Signals with data for this horizon */
+    count: number;
+    avgReturn: number;
+    winRate: number;
+}
+
+export interface BacktestReport {
+    from: string;
+    to: string;
+    interval: BacktestInterval;
+    criteria: CriteriaThresholds;
+    pivotTarget: PivotTarget;
+    /** Weights of the factors that were scored (the rest are 0) */
+    weights: ScoreWeights;
+    /** Criteria that were actually enforced on historical bars */
+    appliedCriteria: (keyof CriteriaThresholds)[];
+    symbolsRequested: number;
+    /** Symbols that had usable bar data */
+    symbolsTested: number;
+    signals: BacktestSignal[];
+    summary: {
+        totalSignals: number;
+        close: HorizonStats;
+        nextOpen: HorizonStats;
+        nextClose: HorizonStats;
+        avgAdverseExcursion: number;
+        maxAdverseExcursion: number;
+        /** Peak-to-trough drawdown (% points) of equal-weight next-close returns in time order */
+        maxDrawdown: number;
+    };
+}
+
+/**
+ * Delivery %, social mentions, news, volume and F&O status are not
+ * available historically, so only the price-derived factors are
+ * scored and the rest are weighted out.
+ */
+const APPLIED_CRITERIA: (keyof CriteriaThresholds)[] = [
+    "MIN_PUMP_PERCENT",
+    "MAX_R2_PROXIMITY",
+    "MIN_SECTOR_OUTPERFORMANCE",
+    "MIN_ALERT_SCORE",
+];
+const UNREPLAYED_WEIGHTS: Partial<ScoreWeights> = { delivery: 0, silence: 0, news: 0, volume: 0 };
+
+interface Bar {
+    time: Date;
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs the backtest over the given date range and returns every
+ * signal with its forward returns plus aggregate statistics.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+    const interval = options.interval ?? "1d";
+    const symbols = options.symbols?.length ? options.symbols : NIFTY_200_SYMBOLS;
+    const criteria: CriteriaThresholds = { ...CRITERIA, ...options.criteria };
+    const pivotTarget = options.pivot ?? DEFAULT_PIVOT_TARGET;
+    const weights: ScoreWeights = { ...DEFAULT_SCORE_WEIGHTS, ...options.weights, ...UNREPLAYED_WEIGHTS };
+
+    const fromMs = Date.parse(`${options.from}T00:00:00+05:30`);
+    const toMs = Date.parse(`${options.to}T23:59:59+05:30`);
+    if (Number.isNaN(fromMs) || Number.isNaN(toMs) || fromMs > toMs) {
+        throw new Error(`Invalid backtest range ${options.from} → ${options.to}`);
+    }
+
+    // Pad the range: prior sessions for pivots, later ones for forward returns
+    const period1 = new Date(fromMs - 10 * DAY_MS);
+    const period2 = new Date(Math.min(toMs + 7 * DAY_MS, Date.now()));
+
+    const niftyDaily = await fetchBars(NIFTY_50_SYMBOL, period1, period2, "1d");
+    const niftyIntraday =
+        interval === "1d"
+            ? []
+            : await fetchBars(NIFTY_50_SYMBOL, period1, period2, interval);
+
+    if (niftyDaily.length < 2) {
+        throw new Error("Nifty 50 history unavailable for the requested range");
+    }
+
+    const signals: BacktestSignal[] = [];
+    let symbolsTested = 0;
+
+    const BATCH_SIZE = 20;
+    for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+        const batch = symbols.slice(i, i + BATCH_SIZE);
+
+        const results = await Promise.all(
+            batch.map(async (symbol) => {
+                const daily = await fetchBars(symbol, period1, period2, "1d");
+                if (daily.length < 2) return null;
+                const intraday =
+                    interval === "1d"
+                        ? []
+                        : await fetchBars(symbol, period1, period2, interval);
+                if (interval !== "1d" && intraday.length === 0) return null;
+                return replaySymbol(
+                    symbol,
+                    daily,
+                    intraday,
+                    niftyDaily,
+                    niftyIntraday,
+                    criteria,
+                    weights,
+                    pivotTarget,
+                    options,
+                );
+            }),
+        );
+
+        for (const result of results) {
+            if (!result) continue;
+            symbolsTested++;
+            signals.push(...result);
+        }
+    }
+
+    signals.sort((a, b) => a.entryTime.localeCompare(b.entryTime));
+
+    return {
+        from: options.from,
+        to: options.to,
+        interval,
+        criteria,
+        pivotTarget,
+        weights,
+        appliedCriteria: APPLIED_CRITERIA,
+        symbolsRequested: symbols.length,
+        symbolsTested,
+        signals,
+        summary: summarize(signals),
+    };
+}
+
+/**
+ * Walks one symbol's sessions and emits at most one signal per day.
+ */
+function replaySymbol(
+    symbol: string,
+    daily: Bar[],
+    intraday: Bar[],
+    niftyDaily: Bar[],
+    niftyIntraday: Bar[],
+    criteria: CriteriaThresholds,
+    weights: ScoreWeights,
+    pivotTarget: PivotTarget,
+    options: BacktestOptions,
+): BacktestSignal[] {
+    const niftyByDate = new Map<string, { prevClose: number; close: number }>();
+    for (let i = 1; i < niftyDaily.length; i++) {
+        niftyByDate.set(niftyDaily[i].date, {
+            prevClose: niftyDaily[i - 1].close,
+            close: niftyDaily[i].close,
+        });
+    }
+
+    const intradayByDate = groupByDate(intraday);
+    const niftyIntradayByDate = groupByDate(niftyIntraday);
+    const signals: BacktestSignal[] = [];
+
+    for (let d = 1; d < daily.length; d++) {
+        const day = daily[d];
+        if (day.date < options.from || day.date > options.to) continue;
+
+        const prev = daily[d - 1];
+        const next = daily[d + 1];
+        const nifty = niftyByDate.get(day.date);
+        if (!nifty) continue;
+
+        const resistance = computePivotLevels(pivotTarget.method, prev)[pivotTarget.level];
+        if (resistance === undefined || resistance <= 0) continue;
+
+        // ── Find the entry bar ──
+        let entry: { bar: Bar; niftyChange: number; score: number } | null = null;
+        let afterEntry: Bar[] = [];
+
+        if (intraday.length === 0) {
+            const niftyChange = pct(nifty.close, nifty.prevClose);
+            const score = alertScore(day.close, prev.close, resistance, niftyChange, criteria, weights);
+            if (score !== null) entry = { bar: day, niftyChange, score };
+        } else {
+            const bars = intradayByDate.get(day.date) ?? [];
+            const niftyBars = niftyIntradayByDate.get(day.date) ?? [];
+            for (let b = 0; b < bars.length; b++) {
+                const niftyBar = lastAtOrBefore(niftyBars, bars[b].time);
+                const niftyChange = pct(niftyBar?.close ?? nifty.close, nifty.prevClose);
+                const score = alertScore(bars[b].close, prev.close, resistance, niftyChange, criteria, weights);
+                if (score !== null) {
+                    entry = { bar: bars[b], niftyChange, score };
+                    afterEntry = bars.slice(b + 1);
+                    break;
+                }
+            }
+        }
+        if (!entry) continue;
+
+        const entryPrice = entry.bar.close;
+        const changePercent = pct(entryPrice, prev.close);
+
+        // ── Forward returns (short side) ──
+        const shortReturn = (exit: number) => round2((entryPrice - exit) / entryPrice * 100);
+        const returns: ForwardReturns = {
+            close: intraday.length === 0 ? null : shortReturn(day.close),
+            nextOpen: next ? shortReturn(next.open) : null,
+            nextClose: next ? shortReturn(next.close) : null,
+        };
+
+        // ── Adverse excursion: highest high after entry through next close ──
+        let adverseExcursion: number | null = null;
+        if (next) {
+            const highs = [...afterEntry.map((b) => b.high), next.high];
+            const worst = Math.max(...highs);
+            adverseExcursion = round2(Math.max(0, (worst - entryPrice) / entryPrice * 100));
+        }
+
+        signals.push({
+            symbol,
+            ticker: tickerFromSymbol(symbol),
+            date: day.date,
+            entryTime: entry.bar.time.toISOString(),
+            entryPrice: round2(entryPrice),
+            changePercent: round2(changePercent),
+            niftyChangePercent: round2(entry.niftyChange),
+            outperformance: round2(changePercent - entry.niftyChange),
+            resistanceLevel: round2(resistance),
+            resistanceProximity: round2(proximityPercent(entryPrice, resistance)),
+            score: entry.score,
+            returns,
+            adverseExcursion,
+        });
+    }
+
+    return signals;
+}
+
+/**
+ * Scores a single price observation the way the screener does and
+ * returns the score if it classifies as an alert, else null
+ */
+function alertScore(
+    price: number,
+    prevClose: number,
+    resistance: number,
+    niftyChange: number,
+    criteria: CriteriaThresholds,
+    weights: ScoreWeights,
+): number | null {
+    const changePercent = pct(price, prevClose);
+    const composite = scoreStock(
+        {
+            move: changePercent,
+            deliveryPercent: -1,
+            deliveryRatio: null,
+            levelProximity: proximityPercent(price, resistance),
+            // Always vs the Nifty 50: sector index history is not replayed
+            outperformance: changePercent - niftyChange,
+            benchmarkLabel: "Nifty 50",
+            totalMentions: 0,
+            weightedMentions: 0,
+            newsMentions: 0,
+            rvol: null,
+        },
+        criteria,
+        weights,
+    );
+    return statusForScore(composite, criteria) === "alert" ? composite.score : null;
+}
+
+function summarize(signals: BacktestSignal[]): BacktestReport["summary"] {
+    const horizon = (key: keyof ForwardReturns): HorizonStats => {
+        const values = signals
+            .map((s) => s.returns[key])
+            .filter((v): v is number => v !== null);
+        if (values.length === 0) return { count: 0, avgReturn: 0, winRate: 0 };
+        return {
+            count: values.length,
+            avgReturn: round2(mean(values)),
+            winRate: round2(values.filter((v) => v > 0).length / values.length * 100),
+        };
+    };
+
+    const excursions = signals
+        .map((s) => s.adverseExcursion)
+        .filter((v): v is number => v !== null);
+
+    // Equity curve of equal-weight next-close returns, in entry order
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const s of signals) {
+        if (s.returns.nextClose === null) continue;
+        equity += s.returns.nextClose;
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+
+    return {
+        totalSignals: signals.length,
+        close: horizon("close"),
+        nextOpen: horizon("nextOpen"),
+        nextClose: horizon("nextClose"),
+        avgAdverseExcursion: excursions.length ? round2(mean(excursions)) : 0,
+        maxAdverseExcursion: excursions.length ? round2(Math.max(...excursions)) : 0,
+        maxDrawdown: round2(maxDrawdown),
+    };
+}
+
+/**
+ * Fetches OHLC bars from the market data provider.
+ * Returns [] on failure so one bad symbol does not abort the run.
+ */
+async function fetchBars(
+    symbol: string,
+    period1: Date,
+    period2: Date,
+    interval: BacktestInterval,
+): Promise<Bar[]> {
+    try {
+        const bars = await getMarketDataProvider().getBars(symbol, {
+            from: period1,
+            to: period2,
+            interval,
+        });
+        return bars.map((b) => ({
+            time: b.time,
+            date: tradingDateOf(b.time),
+            open: b.open,
+            high: b.high,
+            low: b.low,
+            close: b.close,
+        }));
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Backtest] Failed to fetch ${interval} bars for ${symbol}: ${message}`);
+        return [];
+    }
+}
+
+function groupByDate(bars: Bar[]): Map<string, Bar[]> {
+    const map = new Map<string, Bar[]>();
+    for (const bar of bars) {
+        const list = map.get(bar.date) ?? [];
+        list.push(bar);
+        map.set(bar.date, list);
+    }
+    return map;
+}
+
+function lastAtOrBefore(bars: Bar[], time: Date): Bar | undefined {
+    let found: Bar | undefined;
+    for (const bar of bars) {
+        if (bar.time > time) break;
+        found = bar;
+    }
+    return found;
+}
+
+function pct(price: number, base: number): number {
+    return (price - base) / base * 100;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,402 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — NSE Bhavcopy Store
+// Ingests NSE's end-of-day cash market files and serves official
+// OHLC and delivery figures without a live NSE call per ticker.
+//
+// Understood formats (detected from the header, not the name):
+//   sec_bhavdata_full_DDMMYYYY.csv       OHLC + delivery
+//   cmDDMMMYYYYbhav.csv                  OHLC (legacy bhavcopy)
+//   BhavCopy_NSE_CM_*_YYYYMMDD_*.csv     OHLC (UDiFF bhavcopy)
+//   MTO_DDMMYYYY.DAT                     security-wise delivery
+//
+// Files dropped into BHAVCOPY_DIR (default <data dir>/imports/bhavcopy)
+// are picked up automatically, so a folder of past files is a
+// historical backfill. downloadBhavcopy fetches the full
+// bhavdata file for one date from NSE's archives.
+//
+// Each date is stored as "bhavcopy/days/<YYYY-MM-DD>"; files for
+// the same date are merged, so OHLC and delivery files combine.
+// ──────────────────────────────────────────────────────────────
+
+import { promises as fs } from "fs";
+import path from "path";
+import { readJson, updateJson } from "./store";
+import { parseNseDate } from "./constants";
+
+const BHAVCOPY_DIR =
+    process.env.BHAVCOPY_DIR ??
+    path.join(
+        process.env.SILENTSURGE_DATA_DIR ?? path.join(process.cwd(), ".silentsurge"),
+        "imports",
+        "bhavcopy",
+    );
+
+const INDEX_KEY = "bhavcopy/index";
+const ARCHIVE_URL = "https://nsearchives.nseindia.com/products/content";
+/** Series kept: regular equity, trade-for-trade and surveillance segments */
+const EQUITY_SERIES = new Set(["EQ", "BE", "BZ"]);
+/** How often readers rescan BHAVCOPY_DIR for new files */
+const RESCAN_MS = 10 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 30 * 1000;
+/** Lines read to tell an MTO delivery file from a bhavcopy CSV */
+const MTO_SNIFF_LINES = 6;
+
+/** One ticker's end-of-day figures; fields missing from every file are absent */
+export interface EodRecord {
+    open?: number;
+    high?: number;
+    low?: number;
+    close?: number;
+    prevClose?: number;
+    volume?: number;
+    deliveryQty?: number;
+    deliveryPercent?: number;
+}
+
+/** Ticker → figures for one trading date */
+type EodDay = Record<string, EodRecord>;
+
+interface IngestedFile {
+    date: string;
+    /** File size and modification time, to notice replaced files */
+    size: number;
+    modifiedAt: string;
+    ingestedAt: string;
+}
+
+interface BhavcopyIndex {
+    /** Ingested trading dates, oldest first */
+    dates: string[];
+    /** File name → what was ingested from it */
+    files: Record<string, IngestedFile>;
+}
+
+export interface IngestResult {
+    file: string;
+    date: string;
+    symbols: number;
+}
+
+export interface BhavcopyStatus {
+    directory: string;
+    dates: string[];
+    files: number;
+    lastIngestedAt: string | null;
+}
+
+/** Parsed days, kept in memory; cleared per date on ingest */
+const _days: Map<string, Promise<EodDay>> = new Map();
+/**
+ * Most recent dates kept parsed: enough for a 60-session delivery
+ * baseline, older dates are dropped first
+ */
+const MAX_CACHED_DAYS = 70;
+let _scannedAt = 0;
+let _scanning: Promise<IngestResult[]> | null = null;
+
+function dayKey(date: string): string {
+    return `bhavcopy/days/${date}`;
+}
+
+/**
+ * Parses one bhavcopy or delivery file, told apart by content
+ * rather than name. `name` is only used to date files whose rows
+ * carry no date (MTO). Returns null if the format is not recognised.
+ */
+export function parseBhavcopyFile(
+    name: string,
+    text: string,
+): { date: string; records: EodDay } | null {
+    const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+    if (lines.length === 0) return null;
+    // MTO files open with a title line, so look for their records instead
+    const isDeliveryFile = lines
+        .slice(0, MTO_SNIFF_LINES)
+        .some((line) => /^10,MTO\b/i.test(line) || /^20,\d+,/.test(line));
+    if (isDeliveryFile) return parseDeliveryFile(name, lines);
+
+    const header = splitCsv(lines[0]).map((h) => h.toUpperCase());
+    const col = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    const c = {
+        symbol: col("SYMBOL", "TCKRSYMB"),
+        series: col("SERIES", "SCTYSRS"),
+        date: col("DATE1", "TIMESTAMP", "TRADDT"),
+        open: col("OPEN_PRICE", "OPEN", "OPNPRIC"),
+        high: col("HIGH_PRICE", "HIGH", "HGHPRIC"),
+        low: col("LOW_PRICE", "LOW", "LWPRIC"),
+        close: col("CLOSE_PRICE", "CLOSE", "CLSPRIC"),
+        prevClose: col("PREV_CLOSE", "PREVCLOSE", "PRVSCLSGPRIC"),
+        volume: col("TTL_TRD_QNTY", "TOTTRDQTY", "TTLTRADGVOL"),
+        deliveryQty: col("DELIV_QTY"),
+        deliveryPercent: col("DELIV_PER"),
+    };
+    if (c.symbol < 0 || c.series < 0 || c.close < 0) return null;
+
+    let date: string | null = null;
+    const records: EodDay = {};
+    for (const line of lines.slice(1)) {
+        const cells = splitCsv(line);
+        if (!EQUITY_SERIES.has(cells[c.series]?.toUpperCase())) continue;
+        date ??= parseFileDate(cells[c.date] ?? "");
+
+        const num = (i: number) => {
+            const value = i >= 0 ? Number(cells[i]) : NaN;
+            return Number.isFinite(value) ? value : undefined;
+        };
+        records[cells[c.symbol]] = dropUndefined({
+            open: num(c.open),
+            high: num(c.high),
+            low: num(c.low),
+            close: num(c.close),
+            prevClose: num(c.prevClose),
+            volume: num(c.volume),
+            deliveryQty: num(c.deliveryQty),
+            deliveryPercent: num(c.deliveryPercent),
+        });
+    }
+
+    date ??= dateFromName(name);
+    return date ? { date, records } : null;
+}
+
+/**
+ * Stores a file's records under its trading date, merged with
+ * anything already ingested for that date. Throws if the file is
+ * not a recognised bhavcopy or delivery file.
+ */
+export async function ingestBhavcopy(name: string, text: string): Promise<IngestResult> {
+    const parsed = parseBhavcopyFile(name, text);
+    if (!parsed) throw new Error(`${name} is not a recognised bhavcopy or delivery file`);
+    const { date, records } = parsed;
+
+    await updateJson<EodDay>(dayKey(date), {}, (day) => {
+        const merged: EodDay = { ...day };
+        for (const [ticker, record] of Object.entries(records)) {
+            merged[ticker] = { ...merged[ticker], ...record };
+        }
+        return merged;
+    });
+    await updateJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} }, (index) => ({
+        ...index,
+        dates: [...new Set([...index.dates, date])].sort(),
+    }));
+    _days.delete(date);
+
+    return { file: path.basename(name), date, symbols: Object.keys(records).length };
+}
+
+/**
+ * Ingests every new or changed file in `dir`. Unrecognised files
+ * are skipped with a warning.
+ */
+export async function ingestBhavcopyDirectory(dir: string = BHAVCOPY_DIR): Promise<IngestResult[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(dir);
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+    }
+
+    const index = await readJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} });
+    const results: IngestResult[] = [];
+
+    for (const name of names.filter((n) => /\.(csv|dat)$/i.test(n)).sort()) {
+        const file = path.join(dir, name);
+        const stat = await fs.stat(file);
+        const seen = index.files[name];
+        if (seen && seen.size === stat.size && seen.modifiedAt === stat.mtime.toISOString()) continue;
+
+        try {
+            const result = await ingestBhavcopy(name, await fs.readFile(file, "utf8"));
+            await recordIngest(result, stat.size, stat.mtime.toISOString());
+            results.push(result);
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            console.warn(`[Bhavcopy] Skipped ${name}: ${message}`);
+        }
+    }
+
+    if (results.length > 0) {
+        console.log(`[Bhavcopy] Ingested ${results.length} file(s) from ${dir}`);
+    }
+    return results;
+}
+
+/**
+ * Downloads the full bhavdata file (OHLC + delivery) for a trading
+ * date from NSE's archives, saves it into BHAVCOPY_DIR and ingests
+ * it. Throws if NSE has not published it or the fetch fails.
+ */
+export async function downloadBhavcopy(date: string): Promise<IngestResult> {
+    const [year, month, day] = date.split("-");
+    const name = `sec_bhavdata_full_${day}${month}${year}.csv`;
+
+    const res = await fetch(`${ARCHIVE_URL}/${name}`, {
+        headers: { "User-Agent": "SilentSurge/1.0 (stock screener)" },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`NSE returned HTTP ${res.status} for ${name}`);
+
+    const text = await res.text();
+    await fs.mkdir(BHAVCOPY_DIR, { recursive: true });
+    await fs.writeFile(path.join(BHAVCOPY_DIR, name), text, "utf8");
+
+    const stat = await fs.stat(path.join(BHAVCOPY_DIR, name));
+    const result = await ingestBhavcopy(name, text);
+    await recordIngest(result, stat.size, stat.mtime.toISOString());
+    return result;
+}
+
+/** The ticker's figures for a trading date, or null if not ingested */
+export async function getEodRecord(ticker: string, date: string): Promise<EodRecord | null> {
+    await refreshDirectory();
+    const day = await loadDay(date);
+    return day[ticker] ?? null;
+}
+
+/**
+ * The ticker's most recent complete OHLC before `date`, or null if
+ * no ingested date has one
+ */
+export async function getPreviousEodBar(
+    ticker: string,
+    date: string,
+): Promise<{ date: string; open: number; high: number; low: number; close: number } | null> {
+    await refreshDirectory();
+    const { dates } = await readJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} });
+
+    for (const d of dates.filter((d) => d < date).reverse()) {
+        const { open, high, low, close } = (await loadDay(d))[ticker] ?? {};
+        if (open && high && low && close) return { date: d, open, high, low, close };
+    }
+    return null;
+}
+
+/** Delivery % by date for ingested dates in [from, to] */
+export async function getEodDeliveryHistory(
+    ticker: string,
+    from: string,
+    to: string,
+): Promise<Record<string, number>> {
+    await refreshDirectory();
+    const { dates } = await readJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} });
+    const history: Record<string, number> = {};
+
+    for (const date of dates.filter((d) => d >= from && d <= to)) {
+        const pct = (await loadDay(date))[ticker]?.deliveryPercent;
+        if (pct !== undefined) history[date] = pct;
+    }
+    return history;
+}
+
+export async function getBhavcopyStatus(): Promise<BhavcopyStatus> {
+    const index = await readJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} });
+    const ingested = Object.values(index.files).map((f) => f.ingestedAt).sort();
+    return {
+        directory: BHAVCOPY_DIR,
+        dates: index.dates,
+        files: Object.keys(index.files).length,
+        lastIngestedAt: ingested[ingested.length - 1] ?? null,
+    };
+}
+
+/** Picks up files dropped into BHAVCOPY_DIR, at most every RESCAN_MS */
+async function refreshDirectory(): Promise<void> {
+    if (Date.now() - _scannedAt < RESCAN_MS) return;
+    _scanning ??= ingestBhavcopyDirectory()
+        .catch((err: unknown) => {
+            const message = err instanceof Error ? err.message : String(err);
+            console.warn(`[Bhavcopy] Failed to scan ${BHAVCOPY_DIR}: ${message}`);
+            return [];
+        })
+        .finally(() => {
+            _scannedAt = Date.now();
+            _scanning = null;
+        });
+    await _scanning;
+}
+
+function loadDay(date: string): Promise<EodDay> {
+    let day = _days.get(date);
+    if (!day) {
+        day = readJson<EodDay>(dayKey(date), {});
+        _days.set(date, day);
+        if (_days.size > MAX_CACHED_DAYS) {
+            _days.delete([..._days.keys()].sort()[0]);
+        }
+    }
+    return day;
+}
+
+/** Remembers a file from BHAVCOPY_DIR so rescans skip it until it changes */
+async function recordIngest(result: IngestResult, size: number, modifiedAt: string): Promise<void> {
+    await updateJson<BhavcopyIndex>(INDEX_KEY, { dates: [], files: {} }, (index) => ({
+        ...index,
+        files: {
+            ...index.files,
+            [result.file]: { date: result.date, size, modifiedAt, ingestedAt: new Date().toISOString() },
+        },
+    }));
+}
+
+/**
+ * MTO delivery file: a "10,MTO,DDMMYYYY,…" header record, then
+ * "20,<sr>,<symbol>,<series>,<traded>,<deliverable>,<%>" rows
+ */
+function parseDeliveryFile(name: string, lines: string[]): { date: string; records: EodDay } | null {
+    let date: string | null = null;
+    const records: EodDay = {};
+
+    for (const line of lines) {
+        const cells = splitCsv(line);
+        if (cells[0] === "10") date ??= parseFileDate(cells[2] ?? "");
+        if (cells[0] !== "20" || !EQUITY_SERIES.has(cells[3]?.toUpperCase())) continue;
+
+        const deliveryQty = Number(cells[5]);
+        const deliveryPercent = Number(cells[6]);
+        if (!Number.isFinite(deliveryQty) || !Number.isFinite(deliveryPercent)) continue;
+        records[cells[2]] = { deliveryQty, deliveryPercent };
+    }
+
+    date ??= dateFromName(name);
+    return date ? { date, records } : null;
+}
+
+/** Splits a CSV line; bhavcopy values are never quoted or comma-bearing */
+function splitCsv(line: string): string[] {
+    return line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+}
+
+/** Parses "16-Oct-2026", "2026-10-16" or "16102026" into YYYY-MM-DD */
+function parseFileDate(raw: string): string | null {
+    const value = raw.trim();
+    return parseNseDate(value) ?? (/^\d{8}$/.test(value) ? parseCompactDate(value) : null);
+}
+
+/**
+ * "20261016" (UDiFF) or "16102026" (older files). Read as YYYYMMDD,
+ * a DDMMYYYY date always has an impossible month ("20"), so the
+ * two never clash.
+ */
+function parseCompactDate(digits: string): string {
+    const month = Number(digits.slice(4, 6));
+    return /^(19|20)/.test(digits) && month >= 1 && month <= 12
+        ? `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6)}`
+        : `${digits.slice(4)}-${digits.slice(2, 4)}-${digits.slice(0, 2)}`;
+}
+
+/** Dates names like MTO_16102026.DAT, cm16OCT2026bhav.csv or …_20261016_… */
+function dateFromName(name: string): string | null {
+    const base = path.basename(name);
+    const legacy = /(\d{2})([A-Za-z]{3})(\d{4})/.exec(base);
+    if (legacy) return parseFileDate(`${legacy[1]}-${legacy[2]}-${legacy[3]}`);
+    const compact = /(?:^|\D)(\d{8})(?:\D|$)/.exec(base);
+    return compact ? parseCompactDate(compact[1]) : null;
+}
+
+function dropUndefined(record: EodRecord): EodRecord {
+    return Object.fromEntries(
+        Object.entries(record).filter(([, value]) => value !== undefined),
+    ) as EodRecord;
+}
@@ -4,16 +4,273 @@
 
 /** A single social media post/mention with a link */
 export interface SocialMention {
-    platform: "twitter" | "reddit" | "telegram";
+    /** Id of the social source that found it, e.g. "reddit" */
+    platform: string;
     title: string;
     url: string;
     author?: string;
     timestamp?: string;
+    /** Set by the mention analyzer once a scan has all of a stock's posts */
+    analysis?: MentionAnalysis;
+}
+
+/** What a post says about the stock, read from its wording */
+export type MentionSentiment = "bullish" | "bearish" | "question" | "neutral";
+
+/** How much one post should count towards a stock's chatter */
+export interface MentionAnalysis {
+    sentiment: MentionSentiment;
+    /** Promotional tip-channel / paid-call spam */
+    spam: boolean;
+    /** Index (in the stock's mentions) of the post this near-duplicates */
+    duplicateOf: number | null;
+    /** Contribution to the weighted mention count, 0–1 */
+    weight: number;
+}
+
+/** Per-stock tally of analyzed mentions */
+export interface MentionSummary {
+    /** Sum of every mention's weight */
+    weighted: number;
+    sentiment: Record<MentionSentiment, number>;
+    spam: number;
+    duplicates: number;
+}
+
+/** A news article or exchange filing that names the stock */
+export interface NewsItem {
+    /** Feed or exchange it came from, e.g. "Moneycontrol" or "NSE" */
+    source: string;
+    kind: "article" | "announcement";
+    title: string;
+    url: string;
+    publishedAt?: string;
+}
+
+/** Result of sending one alert through one channel */
+export interface AlertDelivery {
+    /** Channel id, e.g. "whatsapp" or "slack" */
+    channel: string;
+    /** Recipients the alert was addressed to */
+    attempted: number;
+    /** Recipients that accepted it */
+    delivered: number;
+    /** One message per failed recipient */
+    errors: string[];
+    sentAt: string;
+}
+
+/** How a social source is shown on the dashboard */
+export interface SocialSourceInfo {
+    /** Stable id used as the mention count key, e.g. "twitter" */
+    id: string;
+    label: string;
+    /** One or two characters shown on count chips */
+    icon: string;
+    /** Accent colour for mention cards */
+    color: string;
+}
+
+/** Pivot point families computed from the previous session */
+export type PivotMethod = "classic" | "fibonacci" | "camarilla" | "woodie" | "demark";
+
+/** Individual pivot levels, support (S) below and resistance (R) above P */
+export type PivotLevelName = "S4" | "S3" | "S2" | "S1" | "P" | "R1" | "R2" | "R3" | "R4";
+
+/** Level prices for one pivot method (methods define different level sets) */
+export type PivotLevels = Partial<Record<PivotLevelName, number>>;
+
+/** Which pivot level the near-resistance criterion measures against */
+export interface PivotTarget {
+    method: PivotMethod;
+    level: PivotLevelName;
+}
+
+/** A specific pivot level and how close (%) the price is to it */
+export interface PivotLevelHit extends PivotTarget {
+    price: number;
+    proximity: number;
+}
+
+/**
+ * Trade side of a setup: short = silent surge into resistance,
+ * long = silent dump into support.
+ */
+export type TradeDirection = "short" | "long";
+
+/** Which setups a scan looks for */
+export type ScreenMode = "surge" | "dump" | "both";
+
+/** What the outperformance criterion measures against */
+export type OutperformanceBenchmark = "market" | "sector";
+
+/** The sectoral index a stock is compared with */
+export interface SectorBenchmark {
+    /** Sector id, e.g. "bank" */
+    id: string;
+    /** Index name for display, e.g. "Nifty Bank" */
+    label: string;
+    /** The sectoral index's day change % */
+    changePercent: number;
+}
+
+/** What today's price move and futures OI change together suggest */
+export type OiBuildup = "long-buildup" | "short-buildup" | "short-covering" | "long-unwinding";
+
+/** The stock's standing and positioning in NSE's F&O segment */
+export interface FnoContext {
+    /** Whether the stock trades in F&O (shortable beyond the day) */
+    eligible: boolean;
+    /** Open interest across futures expiries, in shares */
+    futuresOi: number | null;
+    /** Today's change in futures open interest, in shares */
+    futuresOiChange: number | null;
+    futuresOiChangePercent: number | null;
+    buildup: OiBuildup | null;
+    /** Put/call ratio by option open interest */
+    pcr: number | null;
+}
+
+/** Price band and surveillance status from NSE */
+export interface TradingRestrictions {
+    /** Upper circuit price; null when the stock has no band */
+    upperCircuit: number | null;
+    /** Lower circuit price; null when the stock has no band */
+    lowerCircuit: number | null;
+    /** Band width as NSE states it, e.g. "5" or "No Band" */
+    priceBand: string | null;
+    /** How far (%) price is below the upper circuit */
+    upperCircuitDistance: number | null;
+    /** How far (%) price is above the lower circuit */
+    lowerCircuitDistance: number | null;
+    /** Trading series, e.g. "EQ" or "BE" */
+    series: string;
+    /** BE/BZ series: trade-to-trade, delivery only */
+    tradeToTrade: boolean;
+    /** NSE's surveillance stage text, if any */
+    surveillance: string | null;
+    asm: boolean;
+    gsm: boolean;
+}
+
+/** Today's delivery % against the stock's own history */
+export interface DeliveryBaseline {
+    /** Mean delivery % over the last 20 sessions */
+    average20: number;
+    /** Mean delivery % over the last 60 sessions */
+    average60: number;
+    /** Standard deviation of delivery % over the last 60 sessions */
+    stdDev60: number;
+    /** Sessions of history available (up to 60) */
+    sessions: number;
+    /** Today's delivery % ÷ average20; null if today's is unavailable */
+    ratio: number | null;
+    /** Standard deviations today's delivery % is from average60 */
+    zScore: number | null;
+}
+
+/** Today's volume relative to the stock's normal volume */
+export interface RelativeVolume {
+    /** Average daily volume over the last 20 completed sessions */
+    averageVolume: number;
+    /** Today's volume ÷ averageVolume */
+    rvol: number;
+    /** Average volume traded by this time of day; null without intraday history */
+    timeOfDayVolume: number | null;
+    /** Today's volume ÷ timeOfDayVolume */
+    rvolTimeOfDay: number | null;
+}
+
+/** How the day's move came about: mostly an opening gap, or built up during the session */
+export type MoveType = "gap" | "grind";
+
+/** Today's session from intraday bars */
+export interface IntradayContext {
+    /** Session open price */
+    open: number;
+    /** Open vs the previous close, % */
+    gapPercent: number;
+    moveType: MoveType;
+    /** Volume-weighted average price; null without intraday volume */
+    vwap: number | null;
+    /** How far (%) price is above (+) or below (−) VWAP */
+    vwapDistance: number | null;
+    /** Length of the opening range */
+    openingRangeMinutes: number;
+    openingRangeHigh: number;
+    openingRangeLow: number;
+    /** Intraday high so far */
+    high: number;
+    /** Intraday low so far */
+    low: number;
+    /** How far (%) price has fallen back from the intraday high */
+    pullbackFromHigh: number;
+    /** How far (%) price has recovered from the intraday low */
+    bounceFromLow: number;
+}
+
+/** A factor of the composite score */
+export type ScoreFactorId =
+    | "pump"
+    | "delivery"
+    | "level"
+    | "outperformance"
+    | "silence"
+    | "news"
+    | "volume";
+
+/** Relative weight of each factor in the composite score; 0 leaves a factor out */
+export type ScoreWeights = Record<ScoreFactorId, number>;
+
+/** One factor's contribution to a stock's composite score */
+export interface ScoreFactor {
+    id: ScoreFactorId;
+    label: string;
+    weight: number;
+    /** Normalised sub-score: 1 = comfortably passes, 0.5 = at the threshold, 0 = far off */
+    score: number;
+    /** Whether the factor meets its threshold (score ≥ 0.5) */
+    passed: boolean;
+    /** The value against the threshold, e.g. "22.4% vs < 30%" */
+    detail: string;
 }
 
 /** Status classification for each screened stock */
 export type StockStatus = "alert" | "watch" | "filtered";
 
+/** Phase of the NSE cash market trading day */
+export type MarketPhase = "pre-open" | "open" | "closing-auction" | "closed" | "holiday";
+
+/** A set of symbols a scan runs over */
+export interface UniverseInfo {
+    /** Index id (e.g. "nifty200") or "watchlist:<name>" */
+    id: string;
+    label: string;
+    kind: "index" | "watchlist";
+}
+
+/** A user-defined list of symbols, selectable as a scan universe */
+export interface Watchlist {
+    name: string;
+    description?: string;
+    /** Yahoo-style symbols, e.g. "RELIANCE.NS" */
+    symbols: string[];
+    updatedAt: string;
+}
+
+/** Where the market stood when a scan ran */
+export interface MarketSession {
+    phase: MarketPhase;
+    /** Trading date (IST) the session belongs to, as YYYY-MM-DD */
+    tradingDate: string;
+    /** Holiday name, "Weekend", etc. when the market is shut all day */
+    reason?: string;
+    /** The moment the session was evaluated at (ISO) */
+    asOf: string;
+    /** Next regular session open (ISO), when the market is not open */
+    nextOpen: string | null;
+}
+
 /** Shape of a screened stock returned by the /api/screen endpoint */
 export interface StockData {
     symbol: string;
@@ -23,34 +280,86 @@ export interface StockData {
     changePercent: number;
     volume: number;
     marketCap: number;
-    /** Number of mentions found on Twitter */
-    twitterMentions: number;
-    /** Number of mentions found on Reddit */
-    redditMentions: number;
-    /** Number of mentions found on Telegram */
-    telegramMentions: number;
+    /** When the quote was last updated by the exchange (ISO), if known */
+    quotedAt?: string;
+    /** Quote is older than QUOTE_STALE_MINUTES at scan time */
+    staleQuote: boolean;
+    /** short = pumped into resistance, long = dumped into support */
+    direction: TradeDirection;
+    /** Number of mentions found per social source id */
+    mentionCounts: Record<string, number>;
     /** Total social mentions across all platforms */
     totalMentions: number;
-    /** Silence score — higher means fewer mentions relative to the pump */
+    /** Mentions weighted by sentiment, with spam and duplicates discounted */
+    mentionSummary: MentionSummary;
+    /** Silence score — higher means fewer weighted mentions relative to the pump */
     silenceScore: number;
     /** Actual social media posts/mentions with links */
     mentions: SocialMention[];
+    /** Number of recent news articles and exchange announcements */
+    newsMentions: number;
+    /** The matching news items, newest first */
+    news: NewsItem[];
 
     // ─── New advanced fields ──────────────────────────────────
     /** Delivery % from NSE (< 30% = speculative). -1 if unavailable. */
     deliveryPercent: number;
+    /** Delivery % vs the stock's own history. null if there is none. */
+    deliveryBaseline: DeliveryBaseline | null;
+    /** Daily pivot point (P) price */
+    pivotPoint: number;
     /** R2 pivot resistance level price */
     pivotR2: number;
     /** How close (%) the current price is to R2. -1 if unavailable. */
     r2Proximity: number;
-    /** Whether the price is within 1% of R2 */
+    /** Whether the price is within MAX_R2_PROXIMITY % of R2 */
     nearR2: boolean;
-    /** How much (%) the stock outperforms the Nifty 50 index */
+    /** Levels for every pivot method. null if history is unavailable. */
+    pivotLevels: Record<PivotMethod, PivotLevels> | null;
+    /**
+     * The selected key level and proximity to it — the PivotTarget
+     * resistance for shorts, its mirrored support for longs
+     */
+    targetLevel: PivotLevelHit | null;
+    /** Whether the price is within MAX_R2_PROXIMITY % of the key level */
+    nearTargetLevel: boolean;
+    /** Levels of any method within MAX_R2_PROXIMITY % of price, nearest first */
+    clusteredLevels: PivotLevelHit[];
+    /** How much (%) the stock outperforms the Nifty 50 index (negative = underperforms) */
+    marketOutperformance: number;
+    /** The stock's sectoral index; null if it belongs to none we track */
+    sector: SectorBenchmark | null;
+    /**
+     * How much (%) the stock outperforms its sectoral index. Equals
+     * marketOutperformance when the stock has no sector index.
+     */
     sectorOutperformance: number;
-    /** Classification: alert = all criteria pass, watch = partial, filtered = none */
+    /** Today's volume vs normal volume. null if volume history is unavailable. */
+    relativeVolume: RelativeVolume | null;
+    /** VWAP, opening range and day extremes. null if intraday bars are unavailable. */
+    intraday: IntradayContext | null;
+    /** F&O eligibility, futures OI and PCR. null if F&O membership is unknown. */
+    fno: FnoContext | null;
+    /** Circuit limits and surveillance flags. null if NSE's quote is unavailable. */
+    restrictions: TradingRestrictions | null;
+    /** Why the stock cannot be traded intraday (circuit, ASM/GSM, T2T); it never alerts */
+    untradeable: string | null;
+    /** Weighted composite of the factor scores, 0–100 */
+    score: number;
+    /** Each factor's sub-score, explaining the status */
+    scoreBreakdown: ScoreFactor[];
+    /**
+     * Classification from the score: alert ≥ MIN_ALERT_SCORE with no
+     * factor at 0, watch ≥ MIN_WATCH_SCORE (or alert-worthy but
+     * untradeable), else filtered
+     */
     status: StockStatus;
-    /** Whether a WhatsApp alert was sent for this stock */
+    /** Whether an alert reached at least one recipient on any channel */
     alertSent: boolean;
+    /** Per-channel results for the alert dispatched in this scan (empty if none) */
+    alertDeliveries: AlertDelivery[];
+    /** Why an alert-status stock was not dispatched (market closed, cooldown…) */
+    alertSuppressed?: string;
 }
 
 /** Full API response shape from /api/screen */
@@ -58,10 +367,173 @@ export interface ScreenResponse {
     stocks: StockData[];
     scannedAt: string;
     totalScanned: number;
-    /** Number of WhatsApp alerts sent in this scan */
+    /** Number of stocks whose alert reached at least one channel in this scan */
     alertsSent: number;
     /** Nifty 50 index change % used as benchmark */
     niftyChangePercent: number;
+    /** Market phase at scan time; alerts only go out while "open" */
+    session?: MarketSession;
+    /** Index or watchlist the scan covered */
+    universe?: UniverseInfo;
+    /** Thresholds the scan was classified with */
+    criteria?: CriteriaThresholds;
+    /** Pivot level used for the near-resistance criterion */
+    pivotTarget?: PivotTarget;
+    /** Benchmark the outperformance criterion used */
+    benchmark?: OutperformanceBenchmark;
+    /** Factor weights the scores were computed with */
+    weights?: ScoreWeights;
+    /** Setups the scan looked for */
+    mode?: ScreenMode;
+    /** Social sources searched, in display order */
+    socialSources?: SocialSourceInfo[];
+    /** Name of the criteria profile used, if any */
+    profile?: string;
+    /** ID under which this scan was saved to history (absent if not persisted) */
+    scanId?: string;
+    error?: string;
+}
+
+/**
+ * Server-Sent Events from /api/screen/stream, in order: progress
+ * updates, "start" with the scan metadata (no rows yet), one "row"
+ * per enriched stock as it completes, then "done" with the final
+ * sorted response or "scan-error".
+ */
+export type ScreenStreamEvent =
+    | { type: "progress"; stage: string }
+    | { type: "start"; response: ScreenResponse }
+    | { type: "row"; stock: StockData; completed: number; total: number }
+    | { type: "done"; response: ScreenResponse }
+    | { type: "scan-error"; error: string };
+
+/** Lightweight index entry for a persisted scan */
+export interface ScanSummary {
+    scanId: string;
+    scannedAt: string;
+    /** Trading date (IST) the scan belongs to, as YYYY-MM-DD */
+    tradingDate: string;
+    totalScanned: number;
+    alertsSent: number;
+    niftyChangePercent: number;
+    /** Number of stock rows in the scan */
+    stockCount: number;
+    /** Row counts per status */
+    statusCounts: Record<StockStatus, number>;
+    /** Status of each ticker in the scan, keyed by bare ticker */
+    tickers: Record<string, StockStatus>;
+}
+
+/** A full persisted scan as returned by /api/history/[scanId] */
+export interface StoredScan extends ScreenResponse {
+    scanId: string;
+    tradingDate: string;
+}
+
+/** API response shape from /api/history */
+export interface HistoryResponse {
+    scans: ScanSummary[];
+    /** Total number of scans matching the filters (before limit/offset) */
+    total: number;
+    error?: string;
+}
+
+/** Price observed at a fixed point after an alert */
+export interface OutcomeCheckpoint {
+    price: number;
+    /** % move from the alert price */
+    movePercent: number;
+    /** Whether the move went the trade's way (down for shorts, up for longs) */
+    favorable: boolean;
+    /** Timestamp of the bar the price was taken from */
+    observedAt: string;
+}
+
+/** What happened after a stock was classified as an alert */
+export interface AlertOutcome {
+    /** `${tradingDate}-${direction}-${ticker}-${sequence}` — one outcome per alert the ledger allowed */
+    id: string;
+    ticker: string;
+    symbol: string;
+    tradingDate: string;
+    alertedAt: string;
+    direction: TradeDirection;
+    alertPrice: number;
+    changePercent: number;
+    pivot: number;
+    /** Key level the alert fired at: resistance for shorts, support for longs */
+    keyLevel: number;
+    /** Whether the alert was actually delivered on any channel */
+    alertSent: boolean;
+    scanId?: string;
+    /** tracking = checkpoints still pending, complete = all recorded or expired */
+    status: "tracking" | "complete";
+    after30m: OutcomeCheckpoint | null;
+    after1h: OutcomeCheckpoint | null;
+    endOfDay: OutcomeCheckpoint | null;
+    nextDayClose: OutcomeCheckpoint | null;
+    /** Highest / lowest traded price from the alert through next-day close */
+    highSinceAlert: number;
+    lowSinceAlert: number;
+    /** Price traded through the key level against the trade after the alert */
+    levelBreached: boolean;
+    /** Price traded back to the pivot point after the alert */
+    revertedToPivot: boolean;
+    updatedAt: string;
+}
+
+/** Aggregate scorecard over a set of alert outcomes */
+export interface OutcomeSummary {
+    total: number;
+    complete: number;
+    /** % of alerts whose end-of-day close moved the trade's way */
+    eodWinRate: number;
+    /** % of alerts whose next-day close moved the trade's way */
+    nextDayWinRate: number;
+    /** Average next-day return (%) in the trade's direction */
+    avgNextDayReturn: number;
+    levelBreachRate: number;
+    pivotReversionRate: number;
+}
+
+/** API response shape from /api/outcomes */
+export interface OutcomesResponse {
+    outcomes: AlertOutcome[];
+    summary: OutcomeSummary;
+    error?: string;
+}
+
+/** One scheduler tick: a scan that ran, or why it was skipped */
+export interface SchedulerRun {
+    /** "timer" for the in-process scheduler, "cron" for /api/scheduler/tick */
+    trigger: "timer" | "cron";
+    startedAt: string;
+    finishedAt: string;
+    outcome: "completed" | "skipped" | "failed";
+    /** Why the tick was skipped, or the error a failed scan threw */
+    reason?: string;
+    scanId?: string;
+    totalScanned?: number;
+    alertsSent?: number;
+}
+
+/** API response shape from /api/scheduler */
+export interface SchedulerStatus {
+    enabled: boolean;
+    intervalMinutes: number;
+    profile: string;
+    mode: ScreenMode;
+    /** Universe id scheduled scans cover */
+    universe: string;
+    /** A scheduled scan is in progress right now */
+    running: boolean;
+    marketOpen: boolean;
+    /** Next regular session open, when the market is closed */
+    nextSessionOpen: string | null;
+    /** Most recent tick that actually scanned (completed or failed) */
+    lastRun: SchedulerRun | null;
+    /** Most recent tick of any outcome, including skips */
+    lastCheck: SchedulerRun | null;
     error?: string;
 }
 
@@ -73,19 +545,117 @@ export const CRITERIA = {
     MIN_PUMP_PERCENT: 4,
     /** Maximum delivery % (below this = speculative) */
     MAX_DELIVERY_PERCENT: 30,
+    /**
+     * Maximum delivery relative to the stock's own 20-day average
+     * (e.g. 0.7 = at most 70% of normal). When set it replaces the
+     * absolute MAX_DELIVERY_PERCENT check for stocks with history;
+     * 0 = absolute only
+     */
+    MAX_DELIVERY_RATIO: 0,
     /** Maximum R2 proximity % (within this = near resistance) */
     MAX_R2_PROXIMITY: 1,
-    /** Minimum sector outperformance % */
+    /** Minimum outperformance % vs the benchmark (sector index or Nifty 50) */
     MIN_SECTOR_OUTPERFORMANCE: 2,
-    /** Must have zero social mentions */
+    /** Maximum weighted social mentions (spam and reposts count for little) */
     MAX_MENTIONS: 0,
+    /** Must have zero recent news articles or NSE announcements */
+    MAX_NEWS_MENTIONS: 0,
+    /**
+     * Minimum relative volume (time-of-day RVOL, or 20-day RVOL without
+     * intraday history); 0 = not a criterion
+     */
+    MIN_RELATIVE_VOLUME: 0,
+    /** Only F&O stocks may alert (shortable beyond the day) */
+    REQUIRE_FNO: false,
+    /**
+     * Minimum composite score (0–100) for an alert. A stock exactly at
+     * every threshold scores 50, so anything above 50 asks for more
+     * than the bare criteria
+     */
+    MIN_ALERT_SCORE: 50,
+    /** Minimum composite score (0–100) for the watch list */
+    MIN_WATCH_SCORE: 35,
 } as const;
 
-/** Nifty 50 index symbol for sector benchmark */
+/** A full set of strategy thresholds, keyed like CRITERIA */
+export type CriteriaThresholds = {
+    -readonly [K in keyof typeof CRITERIA]: (typeof CRITERIA)[K] extends boolean ? boolean : number;
+};
+
+/** A named, persisted set of thresholds selectable from the dashboard */
+export interface CriteriaProfile {
+    name: string;
+    description?: string;
+    criteria: CriteriaThresholds;
+    /** Pivot level for the near-resistance check (default: DEFAULT_PIVOT_TARGET) */
+    pivot?: PivotTarget;
+    /** Benchmark for the outperformance check (default: DEFAULT_BENCHMARK) */
+    benchmark?: OutperformanceBenchmark;
+    /** Factor weights; unset factors use DEFAULT_SCORE_WEIGHTS */
+    weights?: Partial<ScoreWeights>;
+    /** Built-in profiles ship with the app and cannot be changed */
+    builtIn: boolean;
+    updatedAt?: string;
+}
+
+/** API response shape from /api/universes */
+export interface UniversesResponse {
+    universes: UniverseInfo[];
+    /** Id of the universe used when a scan does not pick one */
+    defaultUniverse: string;
+    error?: string;
+}
+
+/** API response shape from GET /api/watchlists */
+export interface WatchlistsResponse {
+    watchlists: Watchlist[];
+    error?: string;
+}
+
+/** API response shape from /api/profiles */
+export interface ProfilesResponse {
+    profiles: CriteriaProfile[];
+    error?: string;
+}
+
+/** Levels each pivot method defines */
+export const PIVOT_METHOD_LEVELS: Record<PivotMethod, PivotLevelName[]> = {
+    classic: ["S3", "S2", "S1", "P", "R1", "R2", "R3"],
+    fibonacci: ["S3", "S2", "S1", "P", "R1", "R2", "R3"],
+    camarilla: ["S4", "S3", "S2", "S1", "P", "R1", "R2", "R3", "R4"],
+    woodie: ["S3", "S2", "S1", "P", "R1", "R2", "R3"],
+    demark: ["S1", "P", "R1"],
+};
+
+/** The classic floor-trader R2 the strategy was designed around */
+export const DEFAULT_PIVOT_TARGET: PivotTarget = { method: "classic", level: "R2" };
+
+/**
+ * Outperformance is measured against the stock's own sectoral index
+ * (falling back to the Nifty 50 for stocks without one)
+ */
+export const DEFAULT_BENCHMARK: OutperformanceBenchmark = "sector";
+
+/**
+ * Delivery, key-level proximity and silence define the setup, so
+ * they weigh most. Volume only counts when MIN_RELATIVE_VOLUME is set.
+ */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+    pump: 1,
+    delivery: 1.5,
+    level: 1.5,
+    outperformance: 1,
+    silence: 1.5,
+    news: 1,
+    volume: 1,
+};
+
+/** Nifty 50 index symbol for the market benchmark */
 export const NIFTY_50_SYMBOL = "^NSEI";
 
 /**
- * Curated Nifty 200 symbols (NSE).
+ * Curated Nifty 200 symbols (NSE), used only when the live index
+ * constituents cannot be fetched (see lib/universe.ts).
  * yahoo-finance2 requires the `.NS` suffix for NSE-listed stocks.
  */
 export const NIFTY_200_SYMBOLS: string[] = [
@@ -303,3 +873,41 @@ export const NIFTY_200_SYMBOLS: string[] = [
 export function tickerFromSymbol(symbol: string): string {
     return symbol.replace(/\.(NS|BO)$/, "");
 }
+
+/**
+ * Returns the IST trading date (YYYY-MM-DD) for a timestamp.
+ */
+export function tradingDateOf(time: string | number | Date): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Date(time).toLocaleDateString("en-CA", {
+        timeZone: "Asia/Kolkata",
+    });
+}
+
+const NSE_MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+/**
+ * Parses an NSE date, "16-Oct-2025" (any case) or "2025-10-16",
+ * into YYYY-MM-DD. Returns null for anything else.
+ */
+export function parseNseDate(raw: string | undefined): string | null {
+    const value = raw?.trim() ?? "";
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+    const match = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/.exec(value);
+    const month = match ? NSE_MONTHS.indexOf(match[2].toUpperCase()) : -1;
+    if (!match || month < 0) return null;
+    return `${match[3]}-${String(month + 1).padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+}
+
+/**
+ * Parses an NSE timestamp in IST, "16-Oct-2025 19:45:12" (seconds,
+ * or the whole time, may be missing: midnight), into ISO.
+ */
+export function parseNseTimestamp(raw: string | undefined): string | undefined {
+    const match = /^(\S+)(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(raw?.trim() ?? "");
+    const date = match ? parseNseDate(match[1]) : null;
+    if (!match || !date) return undefined;
+    const ms = Date.parse(`${date}T${match[2] ?? "00"}:${match[3] ?? "00"}:${match[4] ?? "00"}+05:30`);
+    return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
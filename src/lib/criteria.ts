@@ -0,0 +1,278 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Criteria Profiles & Overrides
+// Resolves the thresholds a scan runs with: a named profile
+// (built-in or saved) plus per-request overrides on top of it.
+// ──────────────────────────────────────────────────────────────
+
+import { readJson, updateJson } from "./store";
+import {
+    CRITERIA,
+    DEFAULT_BENCHMARK,
+    DEFAULT_PIVOT_TARGET,
+    DEFAULT_SCORE_WEIGHTS,
+    PIVOT_METHOD_LEVELS,
+    type CriteriaProfile,
+    type CriteriaThresholds,
+    type OutperformanceBenchmark,
+    type PivotLevelName,
+    type PivotMethod,
+    type PivotTarget,
+    type ScoreFactorId,
+    type ScoreWeights,
+} from "./constants";
+
+const PROFILES_KEY = "criteria/profiles";
+
+export const DEFAULT_PROFILE = "default";
+
+/** The thresholds, near-resistance level, benchmark and score weights a scan runs with */
+export interface ResolvedCriteria {
+    profile: string;
+    criteria: CriteriaThresholds;
+    pivotTarget: PivotTarget;
+    benchmark: OutperformanceBenchmark;
+    weights: ScoreWeights;
+}
+
+const BUILT_IN_PROFILES: CriteriaProfile[] = [
+    {
+        name: DEFAULT_PROFILE,
+        description: "The standard SilentSurge thresholds",
+        criteria: { ...CRITERIA },
+        builtIn: true,
+    },
+    {
+        name: "aggressive",
+        description: "Smaller pumps, looser delivery and R2 bands — more signals",
+        criteria: {
+            MIN_PUMP_PERCENT: 3,
+            MAX_DELIVERY_PERCENT: 40,
+            MAX_DELIVERY_RATIO: 0,
+            MAX_R2_PROXIMITY: 2,
+            MIN_SECTOR_OUTPERFORMANCE: 1.5,
+            MAX_MENTIONS: 1,
+            MAX_NEWS_MENTIONS: 1,
+            MIN_RELATIVE_VOLUME: 0,
+            REQUIRE_FNO: false,
+            MIN_ALERT_SCORE: 45,
+            MIN_WATCH_SCORE: 30,
+        },
+        builtIn: true,
+    },
+    {
+        name: "conservative",
+        description: "Bigger pumps on above-normal volume in F&O stocks, tighter delivery and R2 bands — fewer, cleaner signals",
+        criteria: {
+            MIN_PUMP_PERCENT: 5,
+            MAX_DELIVERY_PERCENT: 25,
+            MAX_DELIVERY_RATIO: 0,
+            MAX_R2_PROXIMITY: 0.5,
+            MIN_SECTOR_OUTPERFORMANCE: 3,
+            MAX_MENTIONS: 0,
+            MAX_NEWS_MENTIONS: 0,
+            MIN_RELATIVE_VOLUME: 1.5,
+            REQUIRE_FNO: true,
+            MIN_ALERT_SCORE: 50,
+            MIN_WATCH_SCORE: 40,
+        },
+        builtIn: true,
+    },
+];
+
+const CRITERIA_KEYS = Object.keys(CRITERIA) as (keyof CriteriaThresholds)[];
+
+/**
+ * Extracts threshold overrides from query params or a JSON body.
+ * Keys match CRITERIA (e.g. MIN_PUMP_PERCENT); unknown keys are ignored.
+ * Switches such as REQUIRE_FNO take true/false (or 1/0).
+ * Returns an error message instead of overrides if a value is invalid.
+ */
+export function parseCriteriaOverrides(
+    source: URLSearchParams | Record<string, unknown>,
+): { overrides: Partial<CriteriaThresholds>; error?: string } {
+    const overrides: Partial<CriteriaThresholds> = {};
+
+    for (const key of CRITERIA_KEYS) {
+        const raw =
+            source instanceof URLSearchParams ? source.get(key) : source[key];
+        if (raw === null || raw === undefined || raw === "") continue;
+
+        if (typeof CRITERIA[key] === "boolean") {
+            const flag = parseFlag(raw);
+            if (flag === null) {
+                return { overrides: {}, error: `Invalid value for ${key}: "${raw}" (expected true or false)` };
+            }
+            Object.assign(overrides, { [key]: flag });
+            continue;
+        }
+
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value < 0) {
+            return { overrides: {}, error: `Invalid value for ${key}: "${raw}"` };
+        }
+        Object.assign(overrides, { [key]: value });
+    }
+
+    return { overrides };
+}
+
+/**
+ * Validates a pivot method/level pair (e.g. "camarilla" + "R3").
+ * Returns no target if neither is given; the method defaults to
+ * classic when only a level is given.
+ */
+export function parsePivotTarget(
+    method: unknown,
+    level: unknown,
+): { target?: PivotTarget; error?: string } {
+    if ((method === null || method === undefined || method === "") &&
+        (level === null || level === undefined || level === "")) {
+        return {};
+    }
+
+    const m = String(method || DEFAULT_PIVOT_TARGET.method).toLowerCase() as PivotMethod;
+    const l = String(level || DEFAULT_PIVOT_TARGET.level).toUpperCase() as PivotLevelName;
+
+    const levels = PIVOT_METHOD_LEVELS[m];
+    if (!levels) return { error: `Unknown pivot method "${method}"` };
+    if (!levels.includes(l)) {
+        return { error: `Pivot method "${m}" has no level "${l}"` };
+    }
+    return { target: { method: m, level: l } };
+}
+
+/**
+ * Validates an outperformance benchmark ("market" or "sector").
+ * Returns no benchmark if none is given.
+ */
+export function parseBenchmark(raw: unknown): { benchmark?: OutperformanceBenchmark; error?: string } {
+    if (raw === null || raw === undefined || raw === "") return {};
+    const benchmark = String(raw).toLowerCase();
+    if (benchmark !== "market" && benchmark !== "sector") {
+        return { error: `Unknown benchmark "${raw}"` };
+    }
+    return { benchmark };
+}
+
+/**
+ * Validates factor weights given as an object, e.g.
+ * { "delivery": 2, "news": 0 }. Returns no weights if none are given.
+ */
+export function parseScoreWeights(raw: unknown): { weights?: Partial<ScoreWeights>; error?: string } {
+    if (raw === null || raw === undefined) return {};
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        return { error: "`weights` must be an object of factor → weight" };
+    }
+
+    const weights: Partial<ScoreWeights> = {};
+    for (const [factor, value] of Object.entries(raw)) {
+        if (!(factor in DEFAULT_SCORE_WEIGHTS)) {
+            return { error: `Unknown score factor "${factor}"` };
+        }
+        const weight = Number(value);
+        if (!Number.isFinite(weight) || weight < 0) {
+            return { error: `Invalid weight for ${factor}: "${value}"` };
+        }
+        weights[factor as ScoreFactorId] = weight;
+    }
+    return { weights };
+}
+
+/** Returns every profile: built-ins first, then saved ones by name */
+export async function listProfiles(): Promise<CriteriaProfile[]> {
+    const saved = await readJson<CriteriaProfile[]>(PROFILES_KEY, []);
+    return [
+        ...BUILT_IN_PROFILES,
+        ...saved.sort((a, b) => a.name.localeCompare(b.name)),
+    ];
+}
+
+/** Looks up a profile by name (case-insensitive). Returns null if unknown. */
+export async function getProfile(name: string): Promise<CriteriaProfile | null> {
+    const wanted = name.trim().toLowerCase();
+    const profiles = await listProfiles();
+    return profiles.find((p) => p.name === wanted) ?? null;
+}
+
+/**
+ * Resolves the thresholds for a scan: profile (default if omitted)
+ * with overrides applied on top. Thresholds added after a profile was
+ * saved fall back to CRITERIA. Returns null if the profile is unknown.
+ */
+export async function resolveCriteria(
+    profileName: string | undefined,
+    overrides: Partial<CriteriaThresholds> = {},
+    pivotOverride?: PivotTarget,
+    benchmarkOverride?: OutperformanceBenchmark,
+): Promise<ResolvedCriteria | null> {
+    const profile = await getProfile(profileName || DEFAULT_PROFILE);
+    if (!profile) return null;
+
+    return {
+        profile: profile.name,
+        criteria: { ...CRITERIA, ...profile.criteria, ...overrides },
+        pivotTarget: pivotOverride ?? profile.pivot ?? DEFAULT_PIVOT_TARGET,
+        benchmark: benchmarkOverride ?? profile.benchmark ?? DEFAULT_BENCHMARK,
+        weights: { ...DEFAULT_SCORE_WEIGHTS, ...profile.weights },
+    };
+}
+
+/**
+ * Creates or replaces a saved profile. Missing thresholds are filled
+ * from the default criteria. Throws if the name is invalid or
+ * belongs to a built-in profile.
+ */
+export async function saveProfile(
+    name: string,
+    criteria: Partial<CriteriaThresholds>,
+    description?: string,
+    pivot?: PivotTarget,
+    benchmark?: OutperformanceBenchmark,
+    weights?: Partial<ScoreWeights>,
+): Promise<CriteriaProfile> {
+    const normalized = name.trim().toLowerCase();
+    if (!/^[a-z0-9][a-z0-9_-]{0,39}$/.test(normalized)) {
+        throw new Error(`Invalid profile name "${name}"`);
+    }
+    if (BUILT_IN_PROFILES.some((p) => p.name === normalized)) {
+        throw new Error(`"${normalized}" is a built-in profile and cannot be changed`);
+    }
+
+    const profile: CriteriaProfile = {
+        name: normalized,
+        description,
+        criteria: { ...CRITERIA, ...criteria },
+        pivot,
+        benchmark,
+        weights,
+        builtIn: false,
+        updatedAt: new Date().toISOString(),
+    };
+
+    await updateJson<CriteriaProfile[]>(PROFILES_KEY, [], (saved) => [
+        ...saved.filter((p) => p.name !== normalized),
+        profile,
+    ]);
+    return profile;
+}
+
+/** Deletes a saved profile. Returns false if no such saved profile exists. */
+export async function deleteProfile(name: string): Promise<boolean> {
+    const normalized = name.trim().toLowerCase();
+    let removed = false;
+
+    await updateJson<CriteriaProfile[]>(PROFILES_KEY, [], (saved) => {
+        const next = saved.filter((p) => p.name !== normalized);
+        removed = next.length !== saved.length;
+        return next;
+    });
+    return removed;
+}
+
+/** true/false or 1/0, as a boolean, string or number; null otherwise */
+function parseFlag(raw: unknown): boolean | null {
+    const text = String(raw).toLowerCase();
+    if (text === "true" || text === "1") return true;
+    if (text === "false" || text === "0") return false;
+    return null;
+}
@@ -1,24 +1,55 @@
 // ──────────────────────────────────────────────────────────────
 // SilentSurge — Delivery % Analysis
 // Fetches delivery quantity data from NSE to determine if a
-// stock's volume is speculative (< 30%) or institutional.
+// stock's volume is speculative (< 30%) or institutional. An
+// ingested bhavcopy for the session is used first; the live
+// per-ticker lookup is the fallback.
+//
+// Normal delivery varies widely between stocks, so each ticker's
+// daily delivery % is also kept in the store under its own key
+// ("delivery/history/<TICKER>") and today's value is compared
+// with its own 20/60-session baseline. History is backfilled
+// from NSE's security archives once a day, topped up with every
+// value seen live and merged with any ingested bhavcopy delivery
+// files.
 // ──────────────────────────────────────────────────────────────
 
-import { NseIndia } from "stock-nse-india";
-
-const nseIndia = new NseIndia();
+import { nseIndia } from "./nse-client";
+import { readJson, updateJson } from "./store";
+import { getEodDeliveryHistory, getEodRecord } from "./bhavcopy";
+import { isOfflineReplay } from "./market-data";
+import { tradingDateOf, type DeliveryBaseline } from "./constants";
 
 /** Cached results to avoid hammering NSE within a scan cycle */
 const _cache: Map<string, { value: number; fetchedAt: number }> = new Map();
 const CACHE_TTL_MS = 3 * 60 * 1000;
 
+const SHORT_SESSIONS = 20;
+const LONG_SESSIONS = 60;
+/** Calendar days requested when backfilling LONG_SESSIONS sessions */
+const BACKFILL_DAYS = 95;
+/** Days kept per ticker */
+const RETENTION_DAYS = 120;
+
+interface DeliveryHistory {
+    /** Trading date of the last archive backfill */
+    backfilledOn?: string;
+    /** YYYY-MM-DD → delivery % */
+    days: Record<string, number>;
+}
+
 /**
- * Returns the delivery percentage for a given NSE ticker.
+ * Returns the delivery percentage for a given NSE ticker in the
+ * session `quotedAt` belongs to (today if unknown).
  * Delivery % = (deliveryQuantity / totalTradedQuantity) * 100
  *
  * Returns -1 if data is unavailable (so the frontend can show "N/A").
  */
-export async function getDeliveryPercent(ticker: string): Promise<number> {
+export async function getDeliveryPercent(ticker: string, quotedAt?: string): Promise<number> {
+    const eod = await getEodRecord(ticker, tradingDateOf(quotedAt ?? new Date()));
+    if (eod?.deliveryPercent !== undefined) return eod.deliveryPercent;
+    if (isOfflineReplay()) return -1;
+
     const cached = _cache.get(ticker);
     if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
         return cached.value;
@@ -49,3 +80,127 @@ export async function getDeliveryPercent(ticker: string): Promise<number> {
         return -1;
     }
 }
+
+/**
+ * Compares today's delivery % with the ticker's own history,
+ * excluding today. Records `todayPercent` (if available) against
+ * the session `quotedAt` belongs to, so the history keeps growing
+ * even when the archive is unreachable.
+ *
+ * Returns null if there is no history to compare with.
+ */
+export async function getDeliveryBaseline(
+    ticker: string,
+    todayPercent: number,
+    quotedAt?: string,
+): Promise<DeliveryBaseline | null> {
+    const today = tradingDateOf(quotedAt ?? new Date());
+
+    try {
+        let history: DeliveryHistory;
+        if (isOfflineReplay()) {
+            // A replay reads the stored history but never adds to or backfills it
+            history = await readJson<DeliveryHistory>(historyKey(ticker), { days: {} });
+        } else {
+            history = await updateHistory(ticker, today, todayPercent >= 0 ? { [today]: todayPercent } : {});
+        }
+        if (history.backfilledOn !== today && !isOfflineReplay()) {
+            const archived = await fetchArchivedDelivery(ticker, today);
+            history = await updateHistory(ticker, today, archived, true);
+        }
+
+        // Ingested bhavcopies are official, so they win over other sources
+        const from = tradingDateOf(Date.parse(`${today}T12:00:00+05:30`) - BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+        const eod = await getEodDeliveryHistory(ticker, from, today);
+
+        const past = Object.entries({ ...history.days, ...eod })
+            .filter(([date]) => date < today)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([, pct]) => pct);
+        if (past.length === 0) return null;
+
+        const short = past.slice(-SHORT_SESSIONS);
+        const long = past.slice(-LONG_SESSIONS);
+        const average20 = mean(short);
+        const average60 = mean(long);
+        const stdDev60 = Math.sqrt(mean(long.map((pct) => (pct - average60) ** 2)));
+
+        return {
+            average20: round2(average20),
+            average60: round2(average60),
+            stdDev60: round2(stdDev60),
+            sessions: long.length,
+            ratio: todayPercent >= 0 && average20 > 0 ? round2(todayPercent / average20) : null,
+            zScore: todayPercent >= 0 && stdDev60 > 0 ? round2((todayPercent - average60) / stdDev60) : null,
+        };
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Delivery] Baseline failed for ${ticker}: ${message}`);
+        return null;
+    }
+}
+
+/** Merges days into the ticker's history and prunes old ones */
+async function updateHistory(
+    ticker: string,
+    today: string,
+    days: Record<string, number>,
+    backfilled = false,
+): Promise<DeliveryHistory> {
+    const cutoff = tradingDateOf(Date.parse(`${today}T12:00:00+05:30`) - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    return updateJson<DeliveryHistory>(historyKey(ticker), { days: {} }, (current) => {
+        const merged = Object.entries({ ...current.days, ...days })
+            .filter(([date]) => date >= cutoff);
+        return {
+            backfilledOn: backfilled ? today : current.backfilledOn,
+            days: Object.fromEntries(merged),
+        };
+    });
+}
+
+/** Store key for a ticker's history; symbols such as "&" are hex-escaped */
+function historyKey(ticker: string): string {
+    const safe = ticker.replace(/[^\w-]/g, (c) => `_${c.charCodeAt(0).toString(16)}`);
+    return `delivery/history/${safe}`;
+}
+
+/**
+ * Daily delivery % for the last BACKFILL_DAYS from NSE's security
+ * archives. Returns an empty record if the archive is unavailable.
+ */
+async function fetchArchivedDelivery(ticker: string, today: string): Promise<Record<string, number>> {
+    const to = new Date(`${today}T12:00:00+05:30`);
+    const from = new Date(to.getTime() - BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+    const days: Record<string, number> = {};
+
+    try {
+        const archive = await nseIndia.getDataByEndpoint(
+            `/api/historical/securityArchives?from=${nseDate(from)}&to=${nseDate(to)}` +
+            `&symbol=${encodeURIComponent(ticker)}&dataType=priceVolumeDeliverable&series=EQ`,
+        );
+        for (const row of archive?.data ?? []) {
+            const date = String(row.CH_TIMESTAMP ?? "").slice(0, 10);
+            const pct = Number(row.COP_DELIV_PERC);
+            if (/^\d{4}-\d{2}-\d{2}$/.test(date) && Number.isFinite(pct)) days[date] = pct;
+        }
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Delivery] Archive backfill failed for ${ticker}: ${message}`);
+    }
+    return days;
+}
+
+/** DD-MM-YYYY in IST, as the NSE archive expects */
+function nseDate(date: Date): string {
+    const [year, month, day] = tradingDateOf(date).split("-");
+    return `${day}-${month}-${year}`;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,101 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — F&O Context
+// Tells whether a stock trades in NSE's F&O segment (so a short
+// can be carried past the day) and reads its derivatives:
+//   • futures open interest and today's change in it
+//   • price/OI buildup: long buildup, short buildup, short
+//     covering or long unwinding
+//   • option-chain put/call ratio by open interest
+// The F&O list is read like an index universe ("SECURITIES IN
+// F&O") and cached with it; derivatives quotes are per ticker.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "./nse-client";
+import { getIndexConstituents } from "./universe";
+import { isOfflineReplay } from "./market-data";
+import type { FnoContext, OiBuildup } from "./constants";
+
+const FNO_INDEX = "SECURITIES IN F&O";
+
+/** Cached derivatives quotes, refreshed at most every 3 minutes */
+const _cache: Map<string, { value: FnoContext; fetchedAt: number }> = new Map();
+const CACHE_TTL_MS = 3 * 60 * 1000;
+
+/**
+ * Returns the F&O context for `ticker`. `changePercent` is the
+ * stock's day change, used with the futures OI change to classify
+ * the buildup.
+ *
+ * Returns null if F&O membership cannot be determined (always, in
+ * a fixture replay); an eligible stock whose derivatives quotes
+ * fail has null figures.
+ */
+export async function getFnoContext(ticker: string, changePercent: number): Promise<FnoContext | null> {
+    if (isOfflineReplay()) return null;
+
+    const cached = _cache.get(ticker);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return cached.value;
+    }
+
+    const fnoSymbols = await getIndexConstituents(FNO_INDEX);
+    if (fnoSymbols.length === 0) return null;
+
+    const empty: FnoContext = {
+        eligible: false,
+        futuresOi: null,
+        futuresOiChange: null,
+        futuresOiChangePercent: null,
+        buildup: null,
+        pcr: null,
+    };
+    if (!fnoSymbols.includes(`${ticker}.NS`)) return empty;
+
+    try {
+        const chain = await nseIndia.getEquityOptionChain(ticker);
+        const contracts = chain?.data ?? [];
+
+        // Futures OI summed across expiries
+        const futures = contracts.filter((c) => /fut/i.test(c.instrumentType));
+        const futuresOi = futures.reduce((sum, c) => sum + (c.openInterest || 0), 0);
+        const futuresOiChange = futures.reduce((sum, c) => sum + (c.changeinOpenInterest || 0), 0);
+        const previousOi = futuresOi - futuresOiChange;
+
+        // Put/call ratio by open interest across every listed option
+        const optionOi = (type: RegExp) => contracts
+            .filter((c) => /opt/i.test(c.instrumentType) && type.test(c.optionType))
+            .reduce((sum, c) => sum + (c.openInterest || 0), 0);
+        const callOi = optionOi(/^(call|ce)$/i);
+        const putOi = optionOi(/^(put|pe)$/i);
+
+        const value: FnoContext = {
+            eligible: true,
+            futuresOi: futures.length > 0 ? futuresOi : null,
+            futuresOiChange: futures.length > 0 ? futuresOiChange : null,
+            futuresOiChangePercent: previousOi > 0 ? round2((futuresOiChange / previousOi) * 100) : null,
+            buildup: futures.length > 0 ? classifyBuildup(changePercent, futuresOiChange) : null,
+            pcr: callOi > 0 ? round2(putOi / callOi) : null,
+        };
+        _cache.set(ticker, { value, fetchedAt: Date.now() });
+        return value;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[F&O] Failed for ${ticker}: ${message}`);
+        return { ...empty, eligible: true };
+    }
+}
+
+/**
+ * Price up + OI up = long buildup, price down + OI up = short
+ * buildup, price up + OI down = short covering, price down + OI
+ * down = long unwinding. Null if OI did not change.
+ */
+export function classifyBuildup(changePercent: number, oiChange: number): OiBuildup | null {
+    if (oiChange === 0) return null;
+    if (oiChange > 0) return changePercent >= 0 ? "long-buildup" : "short-buildup";
+    return changePercent >= 0 ? "short-covering" : "long-unwinding";
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,155 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Scan History
+// Persists every completed scan to the local store and serves
+// filtered listings so past scans can be compared over the day.
+// ──────────────────────────────────────────────────────────────
+
+import { readJson, updateJson, writeJson, deleteJson } from "./store";
+import {
+    tickerFromSymbol,
+    tradingDateOf,
+    type ScanSummary,
+    type ScreenResponse,
+    type StockStatus,
+    type StoredScan,
+} from "./constants";
+
+const INDEX_KEY = "scans/index";
+
+/** Oldest scans beyond this count are pruned from the store */
+const MAX_STORED_SCANS = Number(process.env.HISTORY_MAX_SCANS ?? 5000);
+
+/** Filters accepted by listScans / getScan */
+export interface HistoryFilter {
+    /** Trading date (IST) as YYYY-MM-DD */
+    date?: string;
+    /** Inclusive lower bound on scannedAt (ISO date or datetime) */
+    from?: string;
+    /** Inclusive upper bound on scannedAt (ISO date or datetime) */
+    to?: string;
+    /** Bare ticker or yahoo symbol, e.g. "RELIANCE" or "RELIANCE.NS" */
+    ticker?: string;
+    status?: StockStatus;
+}
+
+function makeScanId(scannedAt: string): string {
+    const stamp = scannedAt.replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+    const suffix = Math.random().toString(36).slice(2, 6);
+    return `${stamp}-${suffix}`;
+}
+
+/**
+ * Saves a completed scan and adds it to the history index.
+ * Returns the new scan ID.
+ */
+export async function saveScan(response: ScreenResponse): Promise<string> {
+    const scanId = makeScanId(response.scannedAt);
+    const tradingDate = tradingDateOf(response.scannedAt);
+
+    const stored: StoredScan = { ...response, scanId, tradingDate };
+    delete stored.error;
+
+    const statusCounts: Record<StockStatus, number> = {
+        alert: 0,
+        watch: 0,
+        filtered: 0,
+    };
+    const tickers: Record<string, StockStatus> = {};
+    for (const stock of response.stocks) {
+        statusCounts[stock.status]++;
+        tickers[tickerFromSymbol(stock.symbol)] = stock.status;
+    }
+
+    const summary: ScanSummary = {
+        scanId,
+        scannedAt: response.scannedAt,
+        tradingDate,
+        totalScanned: response.totalScanned,
+        alertsSent: response.alertsSent,
+        niftyChangePercent: response.niftyChangePercent,
+        stockCount: response.stocks.length,
+        statusCounts,
+        tickers,
+    };
+
+    await writeJson(`scans/${scanId}`, stored);
+
+    let pruned: ScanSummary[] = [];
+    await updateJson<ScanSummary[]>(INDEX_KEY, [], (index) => {
+        const next = [...index, summary];
+        if (next.length > MAX_STORED_SCANS) {
+            pruned = next.splice(0, next.length - MAX_STORED_SCANS);
+        }
+        return next;
+    });
+
+    await Promise.all(pruned.map((s) => deleteJson(`scans/${s.scanId}`)));
+    return scanId;
+}
+
+/**
+ * Lists scan summaries matching the filter, newest first.
+ */
+export async function listScans(
+    filter: HistoryFilter = {},
+    limit = 50,
+    offset = 0,
+): Promise<{ scans: ScanSummary[]; total: number }> {
+    const index = await readJson<ScanSummary[]>(INDEX_KEY, []);
+    const ticker = filter.ticker ? tickerFromSymbol(filter.ticker.toUpperCase()) : null;
+    const from = filter.from ? parseBound(filter.from, "start") : NaN;
+    const to = filter.to ? parseBound(filter.to, "end") : NaN;
+
+    const matches = index.filter((s) => {
+        if (filter.date && s.tradingDate !== filter.date) return false;
+        const t = Date.parse(s.scannedAt);
+        if (!Number.isNaN(from) && t < from) return false;
+        if (!Number.isNaN(to) && t > to) return false;
+        if (ticker) {
+            const status = s.tickers[ticker];
+            if (!status) return false;
+            if (filter.status && status !== filter.status) return false;
+        } else if (filter.status && s.statusCounts[filter.status] === 0) {
+            return false;
+        }
+        return true;
+    });
+
+    matches.reverse();
+    return {
+        scans: matches.slice(offset, offset + limit),
+        total: matches.length,
+    };
+}
+
+/**
+ * Fetches a single stored scan. Ticker/status filters narrow the
+ * returned stock rows. Returns null if the scan does not exist.
+ */
+export async function getScan(
+    scanId: string,
+    filter: Pick<HistoryFilter, "ticker" | "status"> = {},
+): Promise<StoredScan | null> {
+    if (!/^[\w-]+$/.test(scanId)) return null;
+
+    const scan = await readJson<StoredScan | null>(`scans/${scanId}`, null);
+    if (!scan) return null;
+
+    const ticker = filter.ticker ? tickerFromSymbol(filter.ticker.toUpperCase()) : null;
+    const stocks = scan.stocks.filter(
+        (s) =>
+            (!ticker || tickerFromSymbol(s.symbol) === ticker) &&
+            (!filter.status || s.status === filter.status),
+    );
+
+    return { ...scan, stocks };
+}
+
+/** Bare YYYY-MM-DD bounds are read as the start/end of that IST day */
+function parseBound(bound: string, edge: "start" | "end"): number {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(bound)) {
+        const time = edge === "start" ? "00:00:00.000" : "23:59:59.999";
+        return Date.parse(`${bound}T${time}+05:30`);
+    }
+    return Date.parse(bound);
+}
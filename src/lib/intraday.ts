@@ -0,0 +1,97 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Intraday Context
+// Builds today's picture from 5-minute bars: VWAP and distance
+// from it, the opening range, the intraday high/low and how far
+// price has come back from them, and whether the move opened
+// with a gap or was ground out during the session.
+//
+// OPENING_RANGE_MINUTES (default 15) sets the opening range.
+// VWAP needs intraday volume, which the NSE provider does not
+// supply, so it is null there.
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider } from "./market-data";
+import { istTime, SESSION_OPEN } from "./market-calendar";
+import { tradingDateOf, type IntradayContext } from "./constants";
+
+const OPENING_RANGE_MINUTES = Number(process.env.OPENING_RANGE_MINUTES ?? 15);
+
+/**
+ * A gap counts as the move when it supplies at least this share of
+ * the day's change; smaller gaps mean the move was ground out
+ */
+const GAP_SHARE = 0.5;
+
+/**
+ * Returns the intraday context for the session `quotedAt` belongs
+ * to (today if unknown). `previousClose` is the prior session's close.
+ *
+ * Returns null if today's bars are unavailable.
+ */
+export async function getIntradayContext(
+    symbol: string,
+    price: number,
+    previousClose: number,
+    quotedAt?: string,
+): Promise<IntradayContext | null> {
+    try {
+        const provider = getMarketDataProvider();
+        const now = await provider.now();
+        const date = tradingDateOf(quotedAt ? new Date(quotedAt) : now);
+        const open = istTime(date, SESSION_OPEN);
+
+        const bars = (await provider.getBars(symbol, { from: open, to: now, interval: "5m" }))
+            .filter((b) => tradingDateOf(b.time) === date);
+        if (bars.length === 0) {
+            console.warn(`[Intraday] No bars today for ${symbol}`);
+            return null;
+        }
+
+        // ── VWAP from each bar's typical price ──
+        let volume = 0;
+        let value = 0;
+        for (const bar of bars) {
+            volume += bar.volume;
+            value += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+        }
+        const vwap = volume > 0 ? value / volume : null;
+
+        // ── Opening range ──
+        const rangeEnd = open.getTime() + OPENING_RANGE_MINUTES * 60 * 1000;
+        const opening = bars.filter((b) => b.time.getTime() < rangeEnd);
+        const openingRange = opening.length > 0 ? opening : bars.slice(0, 1);
+
+        // ── Day extremes, including the live price ──
+        const high = Math.max(price, ...bars.map((b) => b.high));
+        const low = Math.min(price, ...bars.map((b) => b.low));
+
+        // ── Gap vs grind ──
+        const openPrice = bars[0].open;
+        const changePercent = previousClose > 0 ? ((price - previousClose) / previousClose) * 100 : 0;
+        const gapPercent = previousClose > 0 ? ((openPrice - previousClose) / previousClose) * 100 : 0;
+        const gapShare = changePercent !== 0 ? gapPercent / changePercent : 0;
+
+        return {
+            open: round2(openPrice),
+            gapPercent: round2(gapPercent),
+            moveType: gapShare >= GAP_SHARE ? "gap" : "grind",
+            vwap: vwap === null ? null : round2(vwap),
+            vwapDistance: vwap === null ? null : round2(((price - vwap) / vwap) * 100),
+            openingRangeMinutes: OPENING_RANGE_MINUTES,
+            openingRangeHigh: round2(Math.max(...openingRange.map((b) => b.high))),
+            openingRangeLow: round2(Math.min(...openingRange.map((b) => b.low))),
+            high: round2(high),
+            low: round2(low),
+            pullbackFromHigh: round2(((high - price) / high) * 100),
+            bounceFromLow: round2(((price - low) / low) * 100),
+        };
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Intraday] Failed for ${symbol}: ${message}`);
+        return null;
+    }
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,132 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — NSE Market Calendar
+// Knows which days the NSE cash market trades: weekdays except
+// exchange holidays, with the regular session 09:15–15:30 IST.
+// Whether the market is open at a given moment is the session
+// phase (market-session.ts), which builds on this calendar.
+//
+// Holidays come from NSE's trading holiday master (capital market
+// segment), cached in the data store and refreshed weekly. Dates
+// NSE has not published yet can be added with NSE_EXTRA_HOLIDAYS
+// as comma-separated YYYY-MM-DD values.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "./nse-client";
+import { readJson, writeJson } from "./store";
+import { isOfflineReplay } from "./market-data";
+import { parseNseDate, tradingDateOf } from "./constants";
+
+const HOLIDAYS_KEY = "calendar/holidays";
+const HOLIDAY_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+/** Segment of the holiday master that applies to equities */
+const EQUITY_SEGMENT = "CM";
+
+/** Regular session in IST wall-clock time */
+export const SESSION_OPEN = "09:15";
+export const SESSION_CLOSE = "15:30";
+
+interface HolidayCalendar {
+    fetchedAt: string;
+    /** YYYY-MM-DD → holiday description */
+    holidays: Record<string, string>;
+}
+
+let _calendar: HolidayCalendar | null = null;
+
+/** Returns the UTC instant of an IST wall-clock time on a trading date */
+export function istTime(date: string, hhmm: string): Date {
+    return new Date(`${date}T${hhmm}:00+05:30`);
+}
+
+/** Holidays keyed by YYYY-MM-DD, including NSE_EXTRA_HOLIDAYS */
+export async function getHolidays(): Promise<Record<string, string>> {
+    const calendar = await loadCalendar();
+    const extra = (process.env.NSE_EXTRA_HOLIDAYS ?? "")
+        .split(",")
+        .map((d) => d.trim())
+        .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d));
+
+    return {
+        ...calendar.holidays,
+        ...Object.fromEntries(extra.map((d) => [d, "listed in NSE_EXTRA_HOLIDAYS"])),
+    };
+}
+
+export function isWeekend(date: string): boolean {
+    const weekday = istTime(date, "12:00").getUTCDay();
+    return weekday === 0 || weekday === 6;
+}
+
+/** The holiday's description if NSE is shut on a weekday, else null */
+export async function getHoliday(date: string): Promise<string | null> {
+    const holidays = await getHolidays();
+    return holidays[date] ?? null;
+}
+
+export async function isTradingDay(date: string): Promise<boolean> {
+    return !isWeekend(date) && (await getHoliday(date)) === null;
+}
+
+/**
+ * Returns the start of the next regular session after `now` (today's
+ * if it has not opened yet). Looks at most a month ahead.
+ */
+export async function nextSessionOpen(now: Date = new Date()): Promise<Date | null> {
+    for (let i = 0; i <= 31; i++) {
+        const date = tradingDateOf(now.getTime() + i * 24 * 60 * 60 * 1000);
+        const open = istTime(date, SESSION_OPEN);
+        if (open.getTime() <= now.getTime()) continue;
+        if (await isTradingDay(date)) return open;
+    }
+    return null;
+}
+
+/**
+ * Loads the holiday calendar from memory, the store or NSE, in that
+ * order. If NSE cannot be reached, or a fixture is being replayed,
+ * a stale calendar is kept; with no calendar at all only weekends
+ * are treated as closed.
+ */
+async function loadCalendar(): Promise<HolidayCalendar> {
+    const isFresh = (c: HolidayCalendar | null) =>
+        c !== null && Date.now() - Date.parse(c.fetchedAt) < HOLIDAY_REFRESH_MS;
+
+    if (isFresh(_calendar)) return _calendar!;
+
+    const stored = await readJson<HolidayCalendar | null>(HOLIDAYS_KEY, null);
+    if (isFresh(stored)) {
+        _calendar = stored;
+        return stored!;
+    }
+
+    if (isOfflineReplay()) {
+        return stored ?? _calendar ?? { fetchedAt: new Date(0).toISOString(), holidays: {} };
+    }
+
+    try {
+        const bySegment = await nseIndia.getTradingHolidays();
+        const holidays: Record<string, string> = {};
+        for (const holiday of bySegment?.[EQUITY_SEGMENT] ?? []) {
+            const date = parseNseDate(holiday.tradingDate);
+            if (date) holidays[date] = holiday.description;
+        }
+
+        const calendar: HolidayCalendar = {
+            fetchedAt: new Date().toISOString(),
+            // Keep past years so older dates still resolve correctly
+            holidays: { ...stored?.holidays, ...holidays },
+        };
+        await writeJson(HOLIDAYS_KEY, calendar);
+        _calendar = calendar;
+        return calendar;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Calendar] Failed to refresh NSE holidays: ${message}`);
+        // Retry in an hour rather than calling NSE on every check
+        _calendar = {
+            fetchedAt: new Date(Date.now() - HOLIDAY_REFRESH_MS + 60 * 60 * 1000).toISOString(),
+            holidays: stored?.holidays ?? _calendar?.holidays ?? {},
+        };
+        return _calendar;
+    }
+}
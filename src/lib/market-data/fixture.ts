@@ -0,0 +1,159 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Fixture Market Data Provider
+// Replays market data recorded from a live provider so the full
+// screening pipeline runs offline and deterministically.
+//
+// A fixture lives in the data store under fixtures/<name>/:
+//   manifest   { recordedAt, source }
+//   quotes     { [symbol]: MarketQuote }
+//   indices    { [symbol]: changePercent }
+//   bars-<iv>  { [symbol]: PriceBar[] } per bar interval
+// Set MARKET_DATA_RECORD=<name> while running a live provider to
+// capture one, then MARKET_DATA_PROVIDER=fixture and
+// MARKET_DATA_FIXTURE=<name> to replay it.
+// ──────────────────────────────────────────────────────────────
+
+import { readJson, updateJson } from "../store";
+import type { MarketDataProvider, MarketQuote, PriceBar } from "./types";
+
+export const DEFAULT_FIXTURE = "default";
+
+interface FixtureManifest {
+    /** When the quotes were captured — the replayed "now" */
+    recordedAt: string;
+    /** Provider the data was recorded from */
+    source: string;
+}
+
+/** PriceBar as serialised to JSON */
+type StoredBar = Omit<PriceBar, "time"> & { time: string };
+
+function fixtureKey(name: string, part: string): string {
+    return `fixtures/${name}/${part}`;
+}
+
+/**
+ * Replays the named fixture. Fixtures never change while being
+ * replayed, so each file is read once and kept in memory.
+ */
+export function createFixtureProvider(name = DEFAULT_FIXTURE): MarketDataProvider {
+    const cache = new Map<string, Promise<unknown>>();
+    const load = <T>(part: string, fallback: T): Promise<T> => {
+        let pending = cache.get(part) as Promise<T> | undefined;
+        if (!pending) {
+            pending = readJson<T>(fixtureKey(name, part), fallback);
+            cache.set(part, pending);
+        }
+        return pending;
+    };
+
+    return {
+        name: "fixture",
+
+        async now() {
+            const manifest = await load<FixtureManifest | null>("manifest", null);
+            if (!manifest) throw new Error(`Market data fixture "${name}" has not been recorded`);
+            return new Date(manifest.recordedAt);
+        },
+
+        async getQuotes(symbols) {
+            const quotes = await load<Record<string, MarketQuote>>("quotes", {});
+            return symbols
+                .map((s) => quotes[s])
+                .filter((q): q is MarketQuote => q !== undefined);
+        },
+
+        async getIndexChangePercent(symbol) {
+            const indices = await load<Record<string, number>>("indices", {});
+            const change = indices[symbol];
+            if (change === undefined) throw new Error(`Fixture "${name}" has no index ${symbol}`);
+            return change;
+        },
+
+        async getBars(symbol, { from, to, interval }) {
+            const bars = await load<Record<string, StoredBar[]>>(`bars-${interval}`, {});
+            return (bars[symbol] ?? [])
+                .map((b) => ({ ...b, time: new Date(b.time) }))
+                .filter(
+                    (b) => b.time.getTime() >= from.getTime() && b.time.getTime() <= to.getTime(),
+                );
+        },
+    };
+}
+
+/**
+ * Wraps a live provider so everything it returns is also merged into
+ * the named fixture. Recording failures are logged and never affect
+ * the caller.
+ */
+export function createRecordingProvider(
+    inner: MarketDataProvider,
+    name = DEFAULT_FIXTURE,
+): MarketDataProvider {
+    const record = async (part: string, what: string, task: () => Promise<unknown>) => {
+        try {
+            await task();
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            console.warn(`[Fixture] Failed to record ${what} into ${fixtureKey(name, part)}: ${message}`);
+        }
+    };
+
+    return {
+        name: inner.name,
+
+        now: () => inner.now(),
+
+        async getQuotes(symbols) {
+            const quotes = await inner.getQuotes(symbols);
+            const recordedAt = (await inner.now()).toISOString();
+
+            await record("quotes", "quotes", async () => {
+                await updateJson<Record<string, MarketQuote>>(
+                    fixtureKey(name, "quotes"),
+                    {},
+                    (saved) => ({ ...saved, ...Object.fromEntries(quotes.map((q) => [q.symbol, q])) }),
+                );
+                await updateJson<FixtureManifest | null>(
+                    fixtureKey(name, "manifest"),
+                    null,
+                    () => ({ recordedAt, source: inner.name }),
+                );
+            });
+            return quotes;
+        },
+
+        async getIndexChangePercent(symbol) {
+            const change = await inner.getIndexChangePercent(symbol);
+            await record("indices", symbol, () =>
+                updateJson<Record<string, number>>(
+                    fixtureKey(name, "indices"),
+                    {},
+                    (saved) => ({ ...saved, [symbol]: change }),
+                ),
+            );
+            return change;
+        },
+
+        async getBars(symbol, range) {
+            const bars = await inner.getBars(symbol, range);
+            await record(`bars-${range.interval}`, symbol, () =>
+                updateJson<Record<string, StoredBar[]>>(
+                    fixtureKey(name, `bars-${range.interval}`),
+                    {},
+                    (saved) => ({ ...saved, [symbol]: mergeBars(saved[symbol] ?? [], bars) }),
+                ),
+            );
+            return bars;
+        },
+    };
+}
+
+/** Merges newly fetched bars over recorded ones, keyed by bar time */
+function mergeBars(saved: StoredBar[], fresh: PriceBar[]): StoredBar[] {
+    const byTime = new Map(saved.map((b) => [b.time, b]));
+    for (const bar of fresh) {
+        byTime.set(bar.time.toISOString(), { ...bar, time: bar.time.toISOString() });
+    }
+    return [...byTime.values()].sort((a, b) => a.time.localeCompare(b.time));
+}
@@ -0,0 +1,60 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Market Data Provider Selection
+// Picks the provider from MARKET_DATA_PROVIDER:
+//   yahoo    (default) yahoo-finance2
+//   nse      NSE's own APIs via stock-nse-india
+//   fixture  replay of a recorded fixture (MARKET_DATA_FIXTURE)
+// MARKET_DATA_RECORD=<name> additionally records everything a
+// live provider returns into that fixture.
+//
+// A fixture replay is offline: lookups outside the provider (NSE
+// delivery, F&O and surveillance, news, social) check
+// isOfflineReplay() and return nothing instead of calling out.
+// ──────────────────────────────────────────────────────────────
+
+import { createYahooProvider } from "./yahoo";
+import { createNseProvider } from "./nse";
+import { createFixtureProvider, createRecordingProvider } from "./fixture";
+import type { MarketDataProvider } from "./types";
+
+export type {
+    BarInterval,
+    BarRange,
+    MarketDataProvider,
+    MarketQuote,
+    PriceBar,
+} from "./types";
+
+const PROVIDERS: Record<string, () => MarketDataProvider> = {
+    yahoo: createYahooProvider,
+    nse: createNseProvider,
+    fixture: () => createFixtureProvider(process.env.MARKET_DATA_FIXTURE || undefined),
+};
+
+let _provider: MarketDataProvider | null = null;
+
+/** Returns the configured provider, created once per process */
+export function getMarketDataProvider(): MarketDataProvider {
+    if (_provider) return _provider;
+
+    const name = (process.env.MARKET_DATA_PROVIDER ?? "yahoo").toLowerCase();
+    let factory = PROVIDERS[name];
+    if (!factory) {
+        console.warn(`[MarketData] Unknown provider "${name}", falling back to yahoo`);
+        factory = createYahooProvider;
+    }
+
+    let provider = factory();
+    const recordTo = process.env.MARKET_DATA_RECORD;
+    if (recordTo && provider.name !== "fixture") {
+        provider = createRecordingProvider(provider, recordTo);
+    }
+
+    _provider = provider;
+    return provider;
+}
+
+/** True when replaying a fixture, so no live source may be called */
+export function isOfflineReplay(): boolean {
+    return getMarketDataProvider().name === "fixture";
+}
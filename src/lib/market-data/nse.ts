@@ -0,0 +1,198 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — NSE Market Data Provider
+// Quotes, index changes and bars straight from NSE via
+// stock-nse-india. Daily bars come from the historical trade
+// API; intraday bars are built from today's tick chart, so
+// only the current session is available intraday.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "../nse-client";
+import { parseNseDate, parseNseTimestamp, tickerFromSymbol, tradingDateOf } from "../constants";
+import type { BarInterval, MarketDataProvider, MarketQuote, PriceBar } from "./types";
+
+/**
+ * One index call returns quotes for all of its constituents; Nifty
+ * 500 covers every index universe (Nifty 50 … Smallcap 250)
+ */
+const UNIVERSE_INDEX = "NIFTY 500";
+
+/** Symbols outside the universe index are looked up a few at a time */
+const DETAIL_BATCH_SIZE = 10;
+
+/** Yahoo index symbols → NSE index names */
+const NSE_INDEX_NAMES: Record<string, string> = {
+    "^NSEI": "NIFTY 50",
+    "^CNXPSUBANK": "NIFTY PSU BANK",
+    "^NSEBANK": "NIFTY BANK",
+    "^CNXIT": "NIFTY IT",
+    "^CNXPHARMA": "NIFTY PHARMA",
+    "^CNXAUTO": "NIFTY AUTO",
+    "^CNXMETAL": "NIFTY METAL",
+    "^CNXFMCG": "NIFTY FMCG",
+    "^CNXREALTY": "NIFTY REALTY",
+    "^CNXMEDIA": "NIFTY MEDIA",
+    "^CNXENERGY": "NIFTY ENERGY",
+    "NIFTY_FIN_SERVICE.NS": "NIFTY FINANCIAL SERVICES",
+    "^CNXINFRA": "NIFTY INFRA",
+};
+
+const INTERVAL_MS: Record<Exclude<BarInterval, "1d">, number> = {
+    "5m": 5 * 60 * 1000,
+    "15m": 15 * 60 * 1000,
+    "30m": 30 * 60 * 1000,
+    "60m": 60 * 60 * 1000,
+};
+
+/** NSE chart timestamps encode IST wall-clock time as if it were UTC */
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export function createNseProvider(): MarketDataProvider {
+    return {
+        name: "nse",
+
+        async now() {
+            return new Date();
+        },
+
+        async getQuotes(symbols) {
+            const wanted = new Map(symbols.map((s) => [tickerFromSymbol(s), s]));
+            const quotes: MarketQuote[] = [];
+
+            try {
+                const index = await nseIndia.getEquityStockIndices(UNIVERSE_INDEX);
+                for (const row of index?.data ?? []) {
+                    const symbol = wanted.get(row.symbol);
+                    if (!symbol) continue;
+                    wanted.delete(row.symbol);
+                    quotes.push({
+                        symbol,
+                        name: row.meta?.companyName ?? row.symbol,
+                        price: row.lastPrice,
+                        change: row.change,
+                        changePercent: row.pChange,
+                        volume: row.totalTradedVolume,
+                        // Free-float market cap is all the index feed carries
+                        marketCap: row.ffmc ?? 0,
+                        quotedAt: parseNseTimestamp(row.lastUpdateTime),
+                    });
+                }
+            } catch (err: unknown) {
+                const message = err instanceof Error ? err.message : String(err);
+                console.warn(`[NSE] Failed to fetch ${UNIVERSE_INDEX} quotes: ${message}`);
+            }
+
+            const remaining = [...wanted.entries()];
+            for (let i = 0; i < remaining.length; i += DETAIL_BATCH_SIZE) {
+                const batch = remaining.slice(i, i + DETAIL_BATCH_SIZE);
+                const details = await Promise.all(
+                    batch.map(([ticker]) =>
+                        Promise.all([
+                            nseIndia.getEquityDetails(ticker).catch(() => null),
+                            nseIndia.getEquityTradeInfo(ticker).catch(() => null),
+                        ]),
+                    ),
+                );
+
+                details.forEach(([d, trade], j) => {
+                    if (!d?.priceInfo) return;
+                    const price = d.priceInfo.lastPrice;
+                    // The day's traded volume, which NSE reports in lakhs;
+                    // 0 (unavailable) if the trade info could not be fetched
+                    const lakhs = trade?.marketDeptOrderBook?.tradeInfo?.totalTradedVolume;
+                    quotes.push({
+                        symbol: batch[j][1],
+                        name: d.info?.companyName ?? batch[j][0],
+                        price,
+                        change: d.priceInfo.change,
+                        changePercent: d.priceInfo.pChange,
+                        volume: lakhs ? Math.round(lakhs * 100000) : 0,
+                        marketCap: (d.securityInfo?.issuedSize ?? 0) * price,
+                        quotedAt: parseNseTimestamp(d.metadata?.lastUpdateTime),
+                    });
+                });
+            }
+
+            return quotes;
+        },
+
+        async getIndexChangePercent(symbol) {
+            const name = NSE_INDEX_NAMES[symbol] ?? symbol;
+            const all = await nseIndia.getAllIndices();
+            const row = all?.data?.find((d) => d.indexName === name);
+            if (!row) throw new Error(`NSE has no index named "${name}"`);
+            return row.percChange;
+        },
+
+        async getBars(symbol, { from, to, interval }) {
+            if (symbol.startsWith("^")) {
+                throw new Error(`NSE provider has no bars for index ${symbol}`);
+            }
+            const ticker = tickerFromSymbol(symbol);
+            const bars = interval === "1d"
+                ? await fetchDailyBars(ticker, from, to)
+                : await fetchIntradayBars(ticker, INTERVAL_MS[interval]);
+
+            return bars.filter(
+                (b) => b.time.getTime() >= from.getTime() && b.time.getTime() <= to.getTime(),
+            );
+        },
+    };
+}
+
+async function fetchDailyBars(ticker: string, from: Date, to: Date): Promise<PriceBar[]> {
+    const chunks = await nseIndia.getEquityHistoricalData(ticker, { start: from, end: to });
+    const bars: PriceBar[] = [];
+
+    for (const row of chunks.flatMap((c) => c.data)) {
+        const date = parseNseDate(row.mtimestamp);
+        if (!date || !row.chOpeningPrice || !row.chTradeHighPrice || !row.chTradeLowPrice || !row.chClosingPrice) {
+            continue;
+        }
+        bars.push({
+            time: new Date(`${date}T09:15:00+05:30`),
+            open: row.chOpeningPrice,
+            high: row.chTradeHighPrice,
+            low: row.chTradeLowPrice,
+            close: row.chClosingPrice,
+            volume: row.chTotTradedQty ?? 0,
+        });
+    }
+
+    // Chunks can overlap at their edges
+    const unique = new Map(bars.map((b) => [b.time.getTime(), b]));
+    return [...unique.values()].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Buckets today's price ticks into OHLC bars aligned to the 09:15
+ * session open. The tick chart carries no volume, so it is 0.
+ */
+async function fetchIntradayBars(ticker: string, intervalMs: number): Promise<PriceBar[]> {
+    const chart = await nseIndia.getEquityIntradayData(ticker);
+    const buckets = new Map<number, PriceBar>();
+
+    for (const [timestamp, price] of chart?.grapthData ?? []) {
+        if (!price) continue;
+        const time = timestamp - IST_OFFSET_MS;
+        const sessionOpen = Date.parse(`${tradingDateOf(new Date(time))}T09:15:00+05:30`);
+        const start = sessionOpen + Math.floor((time - sessionOpen) / intervalMs) * intervalMs;
+
+        const bar = buckets.get(start);
+        if (!bar) {
+            buckets.set(start, {
+                time: new Date(start),
+                open: price,
+                high: price,
+                low: price,
+                close: price,
+                volume: 0,
+            });
+            continue;
+        }
+        bar.high = Math.max(bar.high, price);
+        bar.low = Math.min(bar.low, price);
+        bar.close = price;
+    }
+
+    return [...buckets.values()].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
@@ -0,0 +1,63 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Market Data Provider Contract
+// The shape every market data source (Yahoo, NSE, recorded
+// fixtures) implements so the screener does not depend on any
+// one of them.
+// ──────────────────────────────────────────────────────────────
+
+/** A stock's live quote */
+export interface MarketQuote {
+    /** Yahoo-style symbol, e.g. "RELIANCE.NS" */
+    symbol: string;
+    name: string;
+    price: number;
+    change: number;
+    changePercent: number;
+    volume: number;
+    marketCap: number;
+    /** When the exchange last traded/updated this quote (ISO), if known */
+    quotedAt?: string;
+}
+
+export type BarInterval = "1d" | "5m" | "15m" | "30m" | "60m";
+
+/** One completed (or today's partial) OHLC candle */
+export interface PriceBar {
+    /** Bar open time */
+    time: Date;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface BarRange {
+    from: Date;
+    to: Date;
+    interval: BarInterval;
+}
+
+export interface MarketDataProvider {
+    /** Short identifier, e.g. "yahoo" */
+    readonly name: string;
+
+    /**
+     * The provider's notion of the current time. Live providers return
+     * the wall clock; a fixture returns the moment it was recorded so
+     * date-relative lookups (e.g. "the last 7 days") replay correctly.
+     */
+    now(): Promise<Date>;
+
+    /** Quotes for the given symbols. Symbols that fail are omitted. */
+    getQuotes(symbols: readonly string[]): Promise<MarketQuote[]>;
+
+    /** An index's current day change %. Throws if unavailable. */
+    getIndexChangePercent(symbol: string): Promise<number>;
+
+    /**
+     * OHLC bars within the range, oldest first. Candles with missing
+     * prices are dropped. Throws if the source request fails.
+     */
+    getBars(symbol: string, range: BarRange): Promise<PriceBar[]>;
+}
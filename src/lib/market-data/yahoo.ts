@@ -0,0 +1,85 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Yahoo Finance Market Data Provider
+// Live/delayed quotes and chart bars via yahoo-finance2.
+// ──────────────────────────────────────────────────────────────
+
+import YahooFinance from "yahoo-finance2";
+import type { MarketDataProvider, MarketQuote, PriceBar } from "./types";
+
+// yahoo-finance2 v3 requires instantiation
+const yahooFinance = new YahooFinance();
+
+/** Quotes are requested in batches to avoid hammering the API */
+const BATCH_SIZE = 50;
+
+export function createYahooProvider(): MarketDataProvider {
+    return {
+        name: "yahoo",
+
+        async now() {
+            return new Date();
+        },
+
+        async getQuotes(symbols) {
+            const allQuotes: MarketQuote[] = [];
+
+            for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+                const batch = symbols.slice(i, i + BATCH_SIZE);
+
+                const results = await Promise.allSettled(
+                    batch.map((sym) =>
+                        yahooFinance.quote(sym).catch(() => null),
+                    ),
+                );
+
+                for (const result of results) {
+                    if (result.status !== "fulfilled" || !result.value) continue;
+                    const q = result.value;
+
+                    allQuotes.push({
+                        symbol: q.symbol ?? "",
+                        name: q.shortName ?? q.longName ?? q.symbol ?? "",
+                        price: q.regularMarketPrice ?? 0,
+                        change: q.regularMarketChange ?? 0,
+                        changePercent: q.regularMarketChangePercent ?? 0,
+                        volume: q.regularMarketVolume ?? 0,
+                        marketCap: q.marketCap ?? 0,
+                        quotedAt: q.regularMarketTime?.toISOString(),
+                    });
+                }
+            }
+
+            return allQuotes;
+        },
+
+        async getIndexChangePercent(symbol) {
+            const q = await yahooFinance.quote(symbol);
+            if (!q || q.regularMarketChangePercent === undefined) {
+                throw new Error(`No quote for ${symbol}`);
+            }
+            return q.regularMarketChangePercent;
+        },
+
+        async getBars(symbol, { from, to, interval }) {
+            const chart = await yahooFinance.chart(symbol, {
+                period1: from,
+                period2: to,
+                interval,
+            });
+
+            const bars: PriceBar[] = [];
+            for (const q of chart?.quotes ?? []) {
+                if (!q.open || !q.high || !q.low || !q.close) continue;
+                bars.push({
+                    time: q.date,
+                    open: q.open,
+                    high: q.high,
+                    low: q.low,
+                    close: q.close,
+                    volume: q.volume ?? 0,
+                });
+            }
+            return bars;
+        },
+    };
+}
@@ -0,0 +1,84 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Market Session
+// Labels a moment with the NSE cash market phase (IST):
+//   pre-open          09:00–09:15  call auction, no continuous trading
+//   open              09:15–15:30  regular session
+//   closing-auction   15:30–16:00  closing price / post-close session
+//   closed            any other time, and weekends
+//   holiday           exchange holidays on weekdays
+// and flags quotes that are too old to act on: older than
+// QUOTE_STALE_MINUTES (default 20) at the time of the scan.
+// ──────────────────────────────────────────────────────────────
+
+import {
+    getHoliday,
+    isWeekend,
+    istTime,
+    nextSessionOpen,
+    SESSION_CLOSE,
+    SESSION_OPEN,
+} from "./market-calendar";
+import { tradingDateOf, type MarketPhase, type MarketSession } from "./constants";
+
+const PRE_OPEN_START = "09:00";
+const CLOSING_END = "16:00";
+
+const STALE_QUOTE_MS = Number(process.env.QUOTE_STALE_MINUTES ?? 20) * 60 * 1000;
+
+export const PHASE_LABELS: Record<MarketPhase, string> = {
+    "pre-open": "Pre-open",
+    open: "Open",
+    "closing-auction": "Closing auction",
+    closed: "Closed",
+    holiday: "Holiday",
+};
+
+/** Returns the market phase at `now` */
+export async function getMarketSession(now: Date = new Date()): Promise<MarketSession> {
+    const tradingDate = tradingDateOf(now);
+    const { phase, reason } = await phaseAt(now, tradingDate);
+    const nextOpen = phase === "open" ? null : await nextSessionOpen(now);
+
+    return {
+        phase,
+        tradingDate,
+        reason,
+        asOf: now.toISOString(),
+        nextOpen: nextOpen?.toISOString() ?? null,
+    };
+}
+
+/**
+ * True if the quote was last updated more than QUOTE_STALE_MINUTES
+ * before `now`. Quotes without a timestamp are not flagged.
+ */
+export function isQuoteStale(quotedAt: string | undefined, now: Date): boolean {
+    if (!quotedAt) return false;
+    const time = Date.parse(quotedAt);
+    return !Number.isNaN(time) && now.getTime() - time > STALE_QUOTE_MS;
+}
+
+/**
+ * Why alerts are held for this session, or null while the regular
+ * session is open.
+ */
+export function sessionHoldReason(session: MarketSession): string | null {
+    if (session.phase === "open") return null;
+    const label = PHASE_LABELS[session.phase];
+    const detail = session.reason ? `${label} (${session.reason})` : label;
+    return `Outside regular session: ${detail}`;
+}
+
+async function phaseAt(now: Date, date: string): Promise<{ phase: MarketPhase; reason?: string }> {
+    if (isWeekend(date)) return { phase: "closed", reason: "Weekend" };
+    const holiday = await getHoliday(date);
+    if (holiday) return { phase: "holiday", reason: holiday };
+
+    const time = now.getTime();
+    const at = (hhmm: string) => istTime(date, hhmm).getTime();
+    if (time < at(PRE_OPEN_START)) return { phase: "closed" };
+    if (time < at(SESSION_OPEN)) return { phase: "pre-open" };
+    if (time < at(SESSION_CLOSE)) return { phase: "open" };
+    if (time < at(CLOSING_END)) return { phase: "closing-auction" };
+    return { phase: "closed" };
+}
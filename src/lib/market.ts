@@ -0,0 +1,76 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Market Data
+// Live/delayed quotes for a scan universe and the Nifty 50
+// benchmark, from whichever market data provider is configured.
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider, type MarketQuote } from "./market-data";
+import { NIFTY_50_SYMBOL } from "./constants";
+
+/** Universe quotes shared by gainer and loser queries within a scan */
+let _quotes: { key: string; promise: Promise<MarketQuote[]>; fetchedAt: number } | null = null;
+const QUOTES_TTL_MS = 15 * 1000;
+
+/**
+ * Fetches quotes for the universe's symbols and returns only those
+ * stocks that have pumped ≥ minChangePercent in today's session.
+ */
+export async function getTopGainers(
+    symbols: readonly string[],
+    minChangePercent = 4,
+): Promise<MarketQuote[]> {
+    const quotes = await getUniverseQuotes(symbols);
+    return quotes
+        .filter((q) => q.changePercent >= minChangePercent)
+        .sort((a, b) => b.changePercent - a.changePercent);
+}
+
+/**
+ * Mirror of getTopGainers: returns universe stocks that have
+ * dropped ≥ minDropPercent in today's session, biggest fall first.
+ */
+export async function getTopLosers(
+    symbols: readonly string[],
+    minDropPercent = 4,
+): Promise<MarketQuote[]> {
+    const quotes = await getUniverseQuotes(symbols);
+    return quotes
+        .filter((q) => q.changePercent <= -minDropPercent)
+        .sort((a, b) => a.changePercent - b.changePercent);
+}
+
+/**
+ * Returns quotes for a whole universe. Concurrent and back-to-back
+ * callers for the same symbols share one fetch so gainers and losers
+ * cost a single pass.
+ */
+function getUniverseQuotes(symbols: readonly string[]): Promise<MarketQuote[]> {
+    const key = symbols.join(",");
+    if (_quotes && _quotes.key === key && Date.now() - _quotes.fetchedAt < QUOTES_TTL_MS) {
+        return _quotes.promise;
+    }
+
+    const promise = getMarketDataProvider().getQuotes(symbols);
+    const entry = { key, promise, fetchedAt: Date.now() };
+    _quotes = entry;
+    promise.catch(() => {
+        if (_quotes === entry) _quotes = null;
+    });
+    return promise;
+}
+
+/**
+ * Fetches the Nifty 50 index's current day change %.
+ * Used as the sector benchmark for outperformance calculation.
+ *
+ * Returns 0 if the index data is unavailable.
+ */
+export async function getNiftyChangePercent(): Promise<number> {
+    try {
+        return await getMarketDataProvider().getIndexChangePercent(NIFTY_50_SYMBOL);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Market] Failed to fetch Nifty 50 change: ${message}`);
+        return 0;
+    }
+}
@@ -0,0 +1,56 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — NSE Corporate Announcements
+// Fetches the latest exchange filings for a ticker (results,
+// board meetings, orders, clarifications…) from NSE.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "../nse-client";
+import { parseNseTimestamp, type NewsItem } from "../constants";
+
+/** Cached filings per ticker to avoid hammering NSE within a scan cycle */
+const _cache: Map<string, { items: NewsItem[]; fetchedAt: number }> = new Map();
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Returns NSE announcements for `ticker` broadcast at or after
+ * `sinceMs`. The feed lists the latest filings regardless of age,
+ * so undated ones are skipped. Returns [] if NSE is unavailable.
+ */
+export async function getNseAnnouncements(
+    ticker: string,
+    sinceMs: number,
+): Promise<NewsItem[]> {
+    const items = await fetchAnnouncements(ticker);
+    return items.filter(
+        (item) => item.publishedAt !== undefined && Date.parse(item.publishedAt) >= sinceMs,
+    );
+}
+
+async function fetchAnnouncements(ticker: string): Promise<NewsItem[]> {
+    const cached = _cache.get(ticker);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return cached.items;
+    }
+
+    try {
+        const info = await nseIndia.getEquityCorporateInfo(ticker);
+        const url = `https://www.nseindia.com/get-quotes/equity?symbol=${encodeURIComponent(ticker)}`;
+
+        const items: NewsItem[] = (info?.latest_announcements?.data ?? [])
+            .filter((a) => a.subject)
+            .map((a) => ({
+                source: "NSE",
+                kind: "announcement" as const,
+                title: a.subject.slice(0, 200),
+                url,
+                publishedAt: parseNseTimestamp(a.broadcastdate),
+            }));
+
+        _cache.set(ticker, { items, fetchedAt: Date.now() });
+        return items;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[News] NSE announcements failed for ${ticker}: ${message}`);
+        return [];
+    }
+}
@@ -0,0 +1,160 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Financial News Feeds
+// Pulls RSS/Atom feeds from Indian market news sites and returns
+// recent articles that name a stock by ticker, company name or
+// any of its aliases.
+//
+// Feeds come from NEWS_FEEDS as comma-separated "Name|url" pairs;
+// Moneycontrol, ET Markets and Business Standard are used if unset.
+// ──────────────────────────────────────────────────────────────
+
+import type { NewsItem } from "../constants";
+import { getMentionMatcher } from "../aliases";
+
+export interface NewsFeed {
+    name: string;
+    url: string;
+}
+
+const DEFAULT_FEEDS: NewsFeed[] = [
+    { name: "Moneycontrol", url: "https://www.moneycontrol.com/rss/buzzingstocks.xml" },
+    { name: "Moneycontrol", url: "https://www.moneycontrol.com/rss/marketreports.xml" },
+    { name: "ET Markets", url: "https://economictimes.indiatimes.com/markets/stocks/rssfeeds/2146842.cms" },
+    { name: "Business Standard", url: "https://www.business-standard.com/rss/markets-106.rss" },
+];
+
+interface FeedEntry {
+    title: string;
+    url: string;
+    publishedAt?: string;
+    /** Title plus summary, used for matching */
+    text: string;
+}
+
+/** Cached entries per feed URL – refreshed at most once every 5 minutes */
+const _cache: Map<string, { entries: FeedEntry[]; fetchedAt: number }> = new Map();
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+/** Feeds from NEWS_FEEDS, or the defaults if it is unset or empty */
+export function getNewsFeeds(): NewsFeed[] {
+    const configured = (process.env.NEWS_FEEDS ?? "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const [name, url] = entry.includes("|") ? entry.split("|", 2) : [entry, entry];
+            return { name: name.trim(), url: url.trim() };
+        })
+        .filter((feed) => /^https?:\/\//.test(feed.url));
+    return configured.length > 0 ? configured : DEFAULT_FEEDS;
+}
+
+/**
+ * Returns articles published at or after `sinceMs` across every
+ * configured feed that mention `ticker` or `companyName`.
+ */
+export async function searchFeedNews(
+    ticker: string,
+    companyName: string,
+    sinceMs: number,
+): Promise<NewsItem[]> {
+    const feeds = getNewsFeeds();
+    const [matcher, results] = await Promise.all([
+        getMentionMatcher(ticker, companyName),
+        Promise.all(feeds.map(fetchFeed)),
+    ]);
+
+    const seen = new Set<string>();
+    const items: NewsItem[] = [];
+    results.forEach((entries, i) => {
+        for (const entry of entries) {
+            if (entry.publishedAt && Date.parse(entry.publishedAt) < sinceMs) continue;
+            if (!matcher.test(entry.text) || seen.has(entry.url)) continue;
+            seen.add(entry.url);
+            items.push({
+                source: feeds[i].name,
+                kind: "article",
+                title: entry.title.slice(0, 200),
+                url: entry.url,
+                publishedAt: entry.publishedAt,
+            });
+        }
+    });
+    return items;
+}
+
+async function fetchFeed(feed: NewsFeed): Promise<FeedEntry[]> {
+    const cached = _cache.get(feed.url);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return cached.entries;
+    }
+
+    try {
+        const res = await fetch(feed.url, {
+            headers: { "User-Agent": "SilentSurge/1.0 (stock screener)" },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            next: { revalidate: 300 },
+        });
+
+        if (!res.ok) {
+            console.warn(`[News] HTTP ${res.status} from ${feed.name}`);
+            return cached?.entries ?? [];
+        }
+
+        const entries = parseFeed(await res.text());
+        _cache.set(feed.url, { entries, fetchedAt: Date.now() });
+        return entries;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[News] Fetch failed for ${feed.name}: ${message}`);
+        return cached?.entries ?? [];
+    }
+}
+
+/** Extracts entries from an RSS 2.0 or Atom document */
+function parseFeed(xml: string): FeedEntry[] {
+    const entries: FeedEntry[] = [];
+    const blocks = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) ?? [];
+
+    for (const block of blocks) {
+        const title = textOf(block, "title");
+        const url =
+            textOf(block, "link") ||
+            /<link[^>]*href="([^"]+)"/i.exec(block)?.[1] ||
+            textOf(block, "guid");
+        if (!title || !url) continue;
+
+        const published =
+            textOf(block, "pubDate") || textOf(block, "published") || textOf(block, "updated");
+        const parsed = published ? Date.parse(published) : NaN;
+        const summary = textOf(block, "description") || textOf(block, "summary");
+
+        entries.push({
+            title,
+            url: decodeEntities(url),
+            publishedAt: Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString(),
+            text: `${title} ${summary}`,
+        });
+    }
+    return entries;
+}
+
+/** Text content of the first <tag>, with CDATA, markup and entities removed */
+function textOf(block: string, tag: string): string {
+    const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i").exec(block);
+    if (!match) return "";
+    const raw = match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+    return decodeEntities(raw.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function decodeEntities(s: string): string {
+    return s
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;|&#39;/g, "'")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,39 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — News Check
+// Backs the "zero news" claim: combines financial RSS/Atom feeds
+// with NSE corporate announcements for a stock.
+//
+// Only items from the last NEWS_LOOKBACK_HOURS (default 36, so
+// filings made after the previous close are included) before the
+// scan's time count. A fixture replay finds no news.
+// ──────────────────────────────────────────────────────────────
+
+import type { NewsItem } from "../constants";
+import { isOfflineReplay } from "../market-data";
+import { searchFeedNews } from "./feeds";
+import { getNseAnnouncements } from "./announcements";
+
+const LOOKBACK_MS = Number(process.env.NEWS_LOOKBACK_HOURS ?? 36) * 60 * 60 * 1000;
+
+/**
+ * Returns news articles and exchange announcements about the stock
+ * from the lookback window ending at `now`, newest first. Undated
+ * items sort last.
+ */
+export async function searchNews(
+    ticker: string,
+    companyName: string,
+    now: Date = new Date(),
+): Promise<NewsItem[]> {
+    if (isOfflineReplay()) return [];
+
+    const since = now.getTime() - LOOKBACK_MS;
+    const [articles, announcements] = await Promise.all([
+        searchFeedNews(ticker, companyName, since),
+        getNseAnnouncements(ticker, since),
+    ]);
+
+    return [...announcements, ...articles].sort(
+        (a, b) => (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""),
+    );
+}
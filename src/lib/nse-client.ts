@@ -0,0 +1,10 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Shared NSE Client
+// stock-nse-india keeps NSE's session cookies on the instance,
+// so every module shares this one client and its cookies rather
+// than each doing its own handshake with NSE.
+// ──────────────────────────────────────────────────────────────
+
+import { NseIndia } from "stock-nse-india";
+
+export const nseIndia = new NseIndia();
@@ -0,0 +1,280 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Post-Alert Outcome Tracker
+// Snapshots the price each time the alert ledger lets an alert
+// through (so a re-alert or a side flip gets its own record) and
+// later fills in +30m, +1h, end-of-day and next-day close prices
+// from 5-minute bars, along with key-level breach / pivot
+// reversion. Works for both short (surge) and long (dump) alerts.
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider } from "./market-data";
+import { readJson, updateJson } from "./store";
+import {
+    tickerFromSymbol,
+    tradingDateOf,
+    type AlertOutcome,
+    type OutcomeCheckpoint,
+    type OutcomeSummary,
+    type TradeDirection,
+} from "./constants";
+
+const OUTCOMES_KEY = "outcomes/alerts";
+
+/** Refresh pending outcomes at most this often */
+const REFRESH_INTERVAL_MS = 2 * 60 * 1000;
+/** Give up on an outcome that still has gaps after this long */
+const MAX_TRACKING_MS = 5 * 24 * 60 * 60 * 1000;
+const BAR_MS = 5 * 60 * 1000;
+
+let _lastRefresh = 0;
+
+export interface NewAlert {
+    /** The ledger claim's id and sequence, `${claimId}-${sequence}` */
+    id: string;
+    /** Session time of the scan that raised the alert */
+    alertedAt: string;
+    symbol: string;
+    direction: TradeDirection;
+    price: number;
+    changePercent: number;
+    pivot: number;
+    /** Resistance (shorts) or support (longs) the alert fired at */
+    keyLevel: number;
+    alertSent: boolean;
+    scanId?: string;
+}
+
+/**
+ * Records the alert-time snapshot for one ledger claim, so every
+ * alert the ledger lets through (re-alerts and side flips included)
+ * is tracked on its own. Recording the same claim again is a no-op.
+ */
+export async function recordAlert(alert: NewAlert): Promise<void> {
+    const { id, alertedAt } = alert;
+    const ticker = tickerFromSymbol(alert.symbol);
+    const tradingDate = tradingDateOf(alertedAt);
+
+    try {
+        await updateJson<AlertOutcome[]>(OUTCOMES_KEY, [], (outcomes) => {
+            if (outcomes.some((o) => o.id === id)) return outcomes;
+
+            return [
+                ...outcomes,
+                {
+                    id,
+                    ticker,
+                    symbol: alert.symbol,
+                    tradingDate,
+                    alertedAt,
+                    direction: alert.direction,
+                    alertPrice: alert.price,
+                    changePercent: alert.changePercent,
+                    pivot: alert.pivot,
+                    keyLevel: alert.keyLevel,
+                    alertSent: alert.alertSent,
+                    scanId: alert.scanId,
+                    status: "tracking",
+                    after30m: null,
+                    after1h: null,
+                    endOfDay: null,
+                    nextDayClose: null,
+                    highSinceAlert: alert.price,
+                    lowSinceAlert: alert.price,
+                    levelBreached: false,
+                    revertedToPivot: false,
+                    updatedAt: alertedAt,
+                },
+            ];
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Outcomes] Failed to record alert for ${ticker}: ${message}`);
+    }
+}
+
+/**
+ * Returns stored outcomes (newest first), optionally filtered by
+ * trading date or ticker. Pending outcomes are refreshed first.
+ */
+export async function getOutcomes(
+    filter: { date?: string; ticker?: string } = {},
+): Promise<AlertOutcome[]> {
+    await refreshOutcomes();
+
+    const ticker = filter.ticker ? tickerFromSymbol(filter.ticker.toUpperCase()) : null;
+    const outcomes = await readJson<AlertOutcome[]>(OUTCOMES_KEY, []);
+
+    return outcomes
+        .filter(
+            (o) =>
+                (!filter.date || o.tradingDate === filter.date) &&
+                (!ticker || o.ticker === ticker),
+        )
+        .reverse();
+}
+
+/**
+ * Fills in any checkpoints that have come due for outcomes still
+ * being tracked. Throttled so dashboard polling stays cheap.
+ */
+export async function refreshOutcomes(): Promise<void> {
+    if (Date.now() - _lastRefresh < REFRESH_INTERVAL_MS) return;
+    _lastRefresh = Date.now();
+
+    const outcomes = await readJson<AlertOutcome[]>(OUTCOMES_KEY, []);
+    const pending = outcomes.filter((o) => o.status === "tracking");
+    if (pending.length === 0) return;
+
+    const updates = await Promise.all(pending.map(evaluateOutcome));
+    const byId = new Map(
+        updates
+            .filter((u): u is AlertOutcome => u !== null)
+            .map((u) => [u.id, u]),
+    );
+    if (byId.size === 0) return;
+
+    await updateJson<AlertOutcome[]>(OUTCOMES_KEY, [], (current) =>
+        current.map((o) => {
+            const updated = byId.get(o.id);
+            // Keep an alert delivery recorded while we were fetching
+            return updated ? { ...updated, alertSent: o.alertSent || updated.alertSent } : o;
+        }),
+    );
+}
+
+/** Aggregates a scorecard over the given outcomes */
+export function summarizeOutcomes(outcomes: AlertOutcome[]): OutcomeSummary {
+    const eod = outcomes.filter((o) => o.endOfDay);
+    const nextDay = outcomes.filter((o) => o.nextDayClose);
+    const rate = (n: number, d: number) => (d === 0 ? 0 : round2((n / d) * 100));
+
+    return {
+        total: outcomes.length,
+        complete: outcomes.filter((o) => o.status === "complete").length,
+        eodWinRate: rate(eod.filter((o) => o.endOfDay!.favorable).length, eod.length),
+        nextDayWinRate: rate(
+            nextDay.filter((o) => o.nextDayClose!.favorable).length,
+            nextDay.length,
+        ),
+        avgNextDayReturn: nextDay.length
+            ? round2(
+                nextDay.reduce(
+                    (sum, o) => sum + directional(o.direction, o.nextDayClose!.movePercent),
+                    0,
+                ) / nextDay.length,
+            )
+            : 0,
+        levelBreachRate: rate(outcomes.filter((o) => o.levelBreached).length, outcomes.length),
+        pivotReversionRate: rate(outcomes.filter((o) => o.revertedToPivot).length, outcomes.length),
+    };
+}
+
+/**
+ * Re-derives every checkpoint for one outcome from 5-minute bars,
+ * as of the provider's time (the recorded moment for a fixture).
+ * Returns null if bars could not be fetched.
+ */
+async function evaluateOutcome(outcome: AlertOutcome): Promise<AlertOutcome | null> {
+    const alertedMs = Date.parse(outcome.alertedAt);
+    const provider = getMarketDataProvider();
+
+    let now: number;
+    let bars: { time: number; date: string; high: number; low: number; close: number }[];
+    try {
+        now = (await provider.now()).getTime();
+        const priceBars = await provider.getBars(outcome.symbol, {
+            from: new Date(alertedMs - BAR_MS),
+            to: new Date(now),
+            interval: "5m",
+        });
+        bars = priceBars.map((b) => ({
+            time: b.time.getTime(),
+            date: tradingDateOf(b.time),
+            high: b.high,
+            low: b.low,
+            close: b.close,
+        }));
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Outcomes] Failed to fetch bars for ${outcome.symbol}: ${message}`);
+        return null;
+    }
+
+    const nextDate = bars.find((b) => b.date > outcome.tradingDate)?.date;
+    const sessionOver = (date: string) => now >= sessionCloseMs(date) + BAR_MS;
+
+    // Bars from the alert through the end of the next session
+    const window = bars.filter(
+        (b) =>
+            b.time + BAR_MS > alertedMs &&
+            (b.date === outcome.tradingDate || b.date === nextDate),
+    );
+
+    const checkpointAt = (targetMs: number): OutcomeCheckpoint | null => {
+        if (now < targetMs + BAR_MS) return null;
+        const sameDay = window.filter((b) => b.date === outcome.tradingDate && b.time <= targetMs);
+        const bar = sameDay[sameDay.length - 1];
+        return bar ? checkpoint(outcome, bar) : null;
+    };
+
+    const closeOf = (date: string | undefined): OutcomeCheckpoint | null => {
+        if (!date || !sessionOver(date)) return null;
+        const dayBars = window.filter((b) => b.date === date);
+        const last = dayBars[dayBars.length - 1];
+        return last ? checkpoint(outcome, last) : null;
+    };
+
+    const updated: AlertOutcome = {
+        ...outcome,
+        after30m: outcome.after30m ?? checkpointAt(alertedMs + 30 * 60 * 1000),
+        after1h: outcome.after1h ?? checkpointAt(alertedMs + 60 * 60 * 1000),
+        endOfDay: outcome.endOfDay ?? closeOf(outcome.tradingDate),
+        nextDayClose: outcome.nextDayClose ?? closeOf(nextDate),
+        updatedAt: new Date(now).toISOString(),
+    };
+
+    if (window.length > 0) {
+        updated.highSinceAlert = round2(Math.max(outcome.highSinceAlert, ...window.map((b) => b.high)));
+        updated.lowSinceAlert = round2(Math.min(outcome.lowSinceAlert, ...window.map((b) => b.low)));
+    }
+    if (outcome.direction === "long") {
+        updated.levelBreached = updated.lowSinceAlert < outcome.keyLevel;
+        updated.revertedToPivot = updated.highSinceAlert >= outcome.pivot;
+    } else {
+        updated.levelBreached = updated.highSinceAlert > outcome.keyLevel;
+        updated.revertedToPivot = updated.lowSinceAlert <= outcome.pivot;
+    }
+
+    if (updated.nextDayClose || now - alertedMs > MAX_TRACKING_MS) {
+        updated.status = "complete";
+    }
+
+    return updated;
+}
+
+function checkpoint(
+    outcome: AlertOutcome,
+    bar: { time: number; close: number },
+): OutcomeCheckpoint {
+    const movePercent = round2(((bar.close - outcome.alertPrice) / outcome.alertPrice) * 100);
+    return {
+        price: round2(bar.close),
+        movePercent,
+        favorable: directional(outcome.direction, movePercent) > 0,
+        observedAt: new Date(bar.time).toISOString(),
+    };
+}
+
+/** Converts a raw price move into a return for the given trade side */
+function directional(direction: TradeDirection, movePercent: number): number {
+    return direction === "long" ? movePercent : -movePercent;
+}
+
+/** NSE cash market closes at 15:30 IST */
+function sessionCloseMs(date: string): number {
+    return Date.parse(`${date}T15:30:00+05:30`);
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -1,14 +1,39 @@
 // ──────────────────────────────────────────────────────────────
 // SilentSurge — Pivot Point Calculator
-// Calculates standard daily pivot points (P, R1, R2) from the
-// previous trading day's OHLC data and determines R2 proximity.
+// Calculates daily pivot levels for every common family
+// (classic, Fibonacci, Camarilla, Woodie, DeMark) from the
+// previous trading day's OHLC data and determines how close the
+// current price is to a selected level and to any level at all.
+// If the market data provider has no completed bar, the latest
+// ingested NSE bhavcopy is used instead.
 // ──────────────────────────────────────────────────────────────
 
-import YahooFinance from "yahoo-finance2";
+import { getMarketDataProvider } from "./market-data";
+import { getPreviousEodBar } from "./bhavcopy";
+import {
+    CRITERIA,
+    DEFAULT_PIVOT_TARGET,
+    PIVOT_METHOD_LEVELS,
+    tickerFromSymbol,
+    tradingDateOf,
+    type PivotLevelHit,
+    type PivotLevelName,
+    type PivotLevels,
+    type PivotMethod,
+    type PivotTarget,
+} from "./constants";
 
-const yahooFinance = new YahooFinance();
+/** A completed session's OHLC */
+export interface OhlcBar {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
 
 export interface PivotData {
+    /** Previous day open */
+    prevOpen: number;
     /** Previous day high */
     prevHigh: number;
     /** Previous day low */
@@ -23,62 +48,184 @@ export interface PivotData {
     r2: number;
     /** How close (%) the current price is to R2. 0 = exactly at R2. */
     r2Proximity: number;
-    /** Whether price is within 1% of R2 */
+    /** Whether price is within the R2 proximity threshold */
     nearR2: boolean;
+    /** Levels for every pivot method */
+    levels: Record<PivotMethod, PivotLevels>;
+    /** The selected target level and proximity to it (null if the method lacks it) */
+    target: PivotLevelHit | null;
+    /** Whether price is within the proximity threshold of the target level */
+    nearTarget: boolean;
+    /** Every level within the proximity threshold, nearest first */
+    clustered: PivotLevelHit[];
+}
+
+/**
+ * Pivot formulas for one method from a completed bar.
+ * Values are unrounded.
+ */
+export function computePivotLevels(method: PivotMethod, bar: OhlcBar): PivotLevels {
+    const { open, high, low, close } = bar;
+    const range = high - low;
+
+    switch (method) {
+        case "classic":
+        case "woodie": {
+            // Woodie weights the close twice; the level formulas are shared
+            const p = method === "classic"
+                ? (high + low + close) / 3
+                : (high + low + 2 * close) / 4;
+            return {
+                S3: low - 2 * (high - p),
+                S2: p - range,
+                S1: 2 * p - high,
+                P: p,
+                R1: 2 * p - low,
+                R2: p + range,
+                R3: high + 2 * (p - low),
+            };
+        }
+        case "fibonacci": {
+            const p = (high + low + close) / 3;
+            return {
+                S3: p - range,
+                S2: p - 0.618 * range,
+                S1: p - 0.382 * range,
+                P: p,
+                R1: p + 0.382 * range,
+                R2: p + 0.618 * range,
+                R3: p + range,
+            };
+        }
+        case "camarilla": {
+            const k = range * 1.1;
+            return {
+                S4: close - k / 2,
+                S3: close - k / 4,
+                S2: close - k / 6,
+                S1: close - k / 12,
+                P: (high + low + close) / 3,
+                R1: close + k / 12,
+                R2: close + k / 6,
+                R3: close + k / 4,
+                R4: close + k / 2,
+            };
+        }
+        case "demark": {
+            // DeMark's X depends on whether the session closed up or down
+            const x = close < open
+                ? high + 2 * low + close
+                : close > open
+                    ? 2 * high + low + close
+                    : high + low + 2 * close;
+            return {
+                S1: x / 2 - high,
+                P: x / 4,
+                R1: x / 2 - low,
+            };
+        }
+    }
+}
+
+/** Pivot levels for every method from a completed bar */
+export function computeAllPivotLevels(bar: OhlcBar): Record<PivotMethod, PivotLevels> {
+    const methods = Object.keys(PIVOT_METHOD_LEVELS) as PivotMethod[];
+    return Object.fromEntries(
+        methods.map((m) => [m, computePivotLevels(m, bar)]),
+    ) as Record<PivotMethod, PivotLevels>;
+}
+
+/**
+ * Mirrors a resistance target onto the support side of the same
+ * method (R2 → S2, R3 → S3, …) for long setups. P maps to itself.
+ */
+export function mirrorPivotTarget(target: PivotTarget): PivotTarget {
+    const level = target.level.replace(/^[RS]/, (side) => (side === "R" ? "S" : "R"));
+    return { method: target.method, level: level as PivotLevelName };
+}
+
+/**
+ * How close (%) `price` is to `level`, in either direction.
+ * 0 = exactly at the level.
+ */
+export function proximityPercent(price: number, level: number): number {
+    return Math.abs(price - level) / level * 100;
+}
+
+/**
+ * Returns the target level and the price's proximity to it,
+ * or null if the method does not define that level.
+ */
+export function locateTarget(
+    price: number,
+    levels: Record<PivotMethod, PivotLevels>,
+    target: PivotTarget,
+): PivotLevelHit | null {
+    const levelPrice = levels[target.method][target.level];
+    if (levelPrice === undefined || levelPrice <= 0) return null;
+    return {
+        ...target,
+        price: round2(levelPrice),
+        proximity: round2(proximityPercent(price, levelPrice)),
+    };
+}
+
+/**
+ * Returns every level (any method) within `maxProximity` % of
+ * the price, nearest first.
+ */
+export function findClusteredLevels(
+    price: number,
+    levels: Record<PivotMethod, PivotLevels>,
+    maxProximity: number,
+): PivotLevelHit[] {
+    const hits: PivotLevelHit[] = [];
+    for (const method of Object.keys(levels) as PivotMethod[]) {
+        for (const level of PIVOT_METHOD_LEVELS[method]) {
+            const hit = locateTarget(price, levels, { method, level });
+            if (hit && hit.proximity <= maxProximity) hits.push(hit);
+        }
+    }
+    return hits.sort((a, b) => a.proximity - b.proximity);
 }
 
 /**
  * Fetches previous day OHLC for the given symbol and computes
- * standard daily pivot points. Returns R2 proximity relative to
- * the current price.
+ * pivot levels for every method. The near-level check uses the
+ * `target` level (classic R2 by default) and `maxProximity` %.
  *
  * Returns null if historical data is unavailable.
  */
 export async function getPivotData(
     symbol: string,
     currentPrice: number,
+    maxProximity: number = CRITERIA.MAX_R2_PROXIMITY,
+    target: PivotTarget = DEFAULT_PIVOT_TARGET,
 ): Promise<PivotData | null> {
     try {
-        // Fetch ~5 days of daily candles to ensure we get at least 1 completed day
-        const now = new Date();
-        const fiveDaysAgo = new Date(now);
-        fiveDaysAgo.setDate(fiveDaysAgo.getDate() - 7);
-
-        const chart = await yahooFinance.chart(symbol, {
-            period1: fiveDaysAgo,
-            period2: now,
-            interval: "1d",
-        });
-
-        const quotes = chart?.quotes;
-        if (!quotes || quotes.length < 2) {
-            console.warn(`[Pivots] Not enough daily bars for ${symbol}`);
-            return null;
-        }
-
-        // The second-to-last bar is "yesterday" (last completed day)
-        // The last bar is today's partial candle
-        const prevDay = quotes[quotes.length - 2];
+        // Fetch a week of daily candles to ensure we get at least 1 completed day
+        const provider = getMarketDataProvider();
+        const now = await provider.now();
+        const weekAgo = new Date(now);
+        weekAgo.setDate(weekAgo.getDate() - 7);
 
-        const high = prevDay.high;
-        const low = prevDay.low;
-        const close = prevDay.close;
-
-        if (!high || !low || !close) {
-            console.warn(`[Pivots] Incomplete OHLC for ${symbol}`);
+        const today = tradingDateOf(now);
+        const prevDay =
+            (await getPreviousProviderBar(symbol, weekAgo, now, today)) ??
+            (await getPreviousEodBar(tickerFromSymbol(symbol), today));
+        if (!prevDay) {
+            console.warn(`[Pivots] No completed daily bar for ${symbol}`);
             return null;
         }
 
-        // Standard pivot point formulas
-        const pivot = (high + low + close) / 3;
-        const r1 = 2 * pivot - low;
-        const r2 = pivot + (high - low);
-
-        // R2 proximity: how close the current price is to R2 in percentage terms
-        const r2Proximity = Math.abs(currentPrice - r2) / r2 * 100;
-        const nearR2 = r2Proximity <= 1.0;
+        const { open, high, low, close } = prevDay;
+        const levels = computeAllPivotLevels({ open, high, low, close });
+        const { P: pivot = 0, R1: r1 = 0, R2: r2 = 0 } = levels.classic;
+        const r2Proximity = proximityPercent(currentPrice, r2);
+        const targetHit = locateTarget(currentPrice, levels, target);
 
         return {
+            prevOpen: round2(open),
             prevHigh: round2(high),
             prevLow: round2(low),
             prevClose: round2(close),
@@ -86,7 +233,11 @@ export async function getPivotData(
             r1: round2(r1),
             r2: round2(r2),
             r2Proximity: round2(r2Proximity),
-            nearR2,
+            nearR2: r2Proximity <= maxProximity,
+            levels: roundLevels(levels),
+            target: targetHit,
+            nearTarget: targetHit !== null && targetHit.proximity <= maxProximity,
+            clustered: findClusteredLevels(currentPrice, levels, maxProximity),
         };
     } catch (err: unknown) {
         const message = err instanceof Error ? err.message : String(err);
@@ -95,6 +246,40 @@ export async function getPivotData(
     }
 }
 
+/**
+ * The last bar before today is the last completed session; today's
+ * partial candle (if any) is skipped. Returns null if the provider
+ * fails or has no completed bar.
+ */
+async function getPreviousProviderBar(
+    symbol: string,
+    from: Date,
+    to: Date,
+    today: string,
+): Promise<OhlcBar | null> {
+    try {
+        const bars = await getMarketDataProvider().getBars(symbol, { from, to, interval: "1d" });
+        const completed = bars.filter((b) => tradingDateOf(b.time) < today);
+        return completed[completed.length - 1] ?? null;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Pivots] Provider bars failed for ${symbol}: ${message}`);
+        return null;
+    }
+}
+
+function roundLevels(
+    levels: Record<PivotMethod, PivotLevels>,
+): Record<PivotMethod, PivotLevels> {
+    const rounded = {} as Record<PivotMethod, PivotLevels>;
+    for (const method of Object.keys(levels) as PivotMethod[]) {
+        rounded[method] = Object.fromEntries(
+            Object.entries(levels[method]).map(([name, value]) => [name, round2(value)]),
+        );
+    }
+    return rounded;
+}
+
 function round2(n: number): number {
     return Math.round(n * 100) / 100;
 }
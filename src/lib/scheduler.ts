@@ -0,0 +1,161 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Scan Scheduler
+// Runs the screening pipeline on the server every
+// SCAN_INTERVAL_MINUTES (default 5) while NSE is in session, so
+// alerts go out whether or not anyone has the dashboard open.
+// Ticks on weekends, NSE holidays or outside 09:15–15:30 IST are
+// skipped and recorded as such.
+//
+//   SCHEDULER_ENABLED   "true" / "false" turns the in-process
+//                       timer on or off. Unset, it runs only under
+//                       `next start` on a long-lived server: `next
+//                       dev` and serverless instances would each
+//                       start their own timer, so point an external
+//                       cron at /api/scheduler/tick there instead
+//   SCHEDULER_PROFILE   criteria profile to scan with (default)
+//   SCHEDULER_MODE      surge (default), dump or both
+//   SCHEDULER_UNIVERSE  index or "watchlist:<name>" to scan
+//                       (default DEFAULT_UNIVERSE)
+// ──────────────────────────────────────────────────────────────
+
+import { readJson, updateJson } from "./store";
+import { DEFAULT_PROFILE, resolveCriteria } from "./criteria";
+import { parseScreenMode, runScreen } from "./screener";
+import { DEFAULT_UNIVERSE, resolveUniverse } from "./universe";
+import { getMarketDataProvider } from "./market-data";
+import { getMarketSession, sessionHoldReason } from "./market-session";
+import type { ScreenMode, SchedulerRun, SchedulerStatus } from "./constants";
+
+const STATUS_KEY = "scheduler/status";
+
+const INTERVAL_MINUTES = Math.max(1, Number(process.env.SCAN_INTERVAL_MINUTES ?? 5) || 5);
+const ENABLED = process.env.SCHEDULER_ENABLED
+    ? process.env.SCHEDULER_ENABLED !== "false"
+    : process.env.NODE_ENV === "production" &&
+        !process.env.VERCEL &&
+        !process.env.AWS_LAMBDA_FUNCTION_NAME;
+const PROFILE = process.env.SCHEDULER_PROFILE || DEFAULT_PROFILE;
+const MODE = schedulerMode(process.env.SCHEDULER_MODE);
+const UNIVERSE = process.env.SCHEDULER_UNIVERSE || DEFAULT_UNIVERSE;
+
+interface StoredStatus {
+    lastRun: SchedulerRun | null;
+    lastCheck: SchedulerRun | null;
+}
+
+interface SchedulerState {
+    timer: ReturnType<typeof setInterval> | null;
+    running: boolean;
+}
+
+// Next.js loads instrumentation and route handlers as separate module
+// instances, so the timer and in-flight flag live on globalThis
+const _state: SchedulerState = ((globalThis as { __silentSurgeScheduler?: SchedulerState })
+    .__silentSurgeScheduler ??= { timer: null, running: false });
+
+/** Starts the in-process timer once per server; later calls are no-ops */
+export function startScheduler(): void {
+    if (!ENABLED) {
+        console.log(
+            process.env.SCHEDULER_ENABLED
+                ? "[Scheduler] Disabled by SCHEDULER_ENABLED=false"
+                : "[Scheduler] Off outside `next start`; set SCHEDULER_ENABLED=true to run it here",
+        );
+        return;
+    }
+    if (_state.timer) return;
+
+    console.log(
+        `[Scheduler] Scanning every ${INTERVAL_MINUTES}m during NSE hours ` +
+            `(profile "${PROFILE}", mode ${MODE}, universe ${UNIVERSE})`,
+    );
+    _state.timer = setInterval(() => void runScheduledScan("timer"), INTERVAL_MINUTES * 60 * 1000);
+    void runScheduledScan("timer");
+}
+
+/**
+ * Runs one scheduled scan unless the market is closed or the previous
+ * scan is still running. Never throws; the outcome is recorded and
+ * returned.
+ */
+export async function runScheduledScan(trigger: SchedulerRun["trigger"]): Promise<SchedulerRun> {
+    const startedAt = new Date().toISOString();
+    const finish = (result: Pick<SchedulerRun, "outcome" | "reason" | "scanId" | "totalScanned" | "alertsSent">) =>
+        recordRun({ trigger, startedAt, finishedAt: new Date().toISOString(), ...result });
+
+    if (_state.running) {
+        return finish({ outcome: "skipped", reason: "Previous scan still running" });
+    }
+    _state.running = true;
+
+    try {
+        // The provider's clock, so a fixture replay sees its own session
+        const session = await getMarketDataProvider().now().then(getMarketSession);
+        const closed = sessionHoldReason(session);
+        if (closed) return await finish({ outcome: "skipped", reason: closed });
+
+        const resolved = await resolveCriteria(PROFILE);
+        if (!resolved) throw new Error(`Unknown criteria profile "${PROFILE}"`);
+        const universe = await resolveUniverse(UNIVERSE);
+        if (!universe) throw new Error(`Unknown universe "${UNIVERSE}"`);
+
+        const response = await runScreen(resolved, MODE, universe);
+        console.log(
+            `[Scheduler] Scanned ${response.totalScanned} movers, ${response.alertsSent} alerts sent`,
+        );
+        return await finish({
+            outcome: "completed",
+            scanId: response.scanId,
+            totalScanned: response.totalScanned,
+            alertsSent: response.alertsSent,
+        });
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[Scheduler] Scan failed: ${message}`);
+        return await finish({ outcome: "failed", reason: message });
+    } finally {
+        _state.running = false;
+    }
+}
+
+/** Current configuration, market state and the last recorded runs */
+export async function getSchedulerStatus(): Promise<SchedulerStatus> {
+    const [stored, session] = await Promise.all([
+        readJson<StoredStatus>(STATUS_KEY, { lastRun: null, lastCheck: null }),
+        getMarketDataProvider().now().then(getMarketSession),
+    ]);
+
+    return {
+        enabled: ENABLED,
+        intervalMinutes: INTERVAL_MINUTES,
+        profile: PROFILE,
+        mode: MODE,
+        universe: UNIVERSE,
+        running: _state.running,
+        marketOpen: session.phase === "open",
+        nextSessionOpen: session.nextOpen,
+        lastRun: stored.lastRun,
+        lastCheck: stored.lastCheck,
+    };
+}
+
+/** Saves the run as the latest check (and latest run, unless skipped) */
+async function recordRun(run: SchedulerRun): Promise<SchedulerRun> {
+    try {
+        await updateJson<StoredStatus>(STATUS_KEY, { lastRun: null, lastCheck: null }, (status) => ({
+            lastRun: run.outcome === "skipped" ? status.lastRun : run,
+            lastCheck: run,
+        }));
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Scheduler] Failed to save status: ${message}`);
+    }
+    return run;
+}
+
+function schedulerMode(raw: string | undefined): ScreenMode {
+    const mode = parseScreenMode(raw);
+    if (mode) return mode;
+    console.warn(`[Scheduler] Unknown SCHEDULER_MODE "${raw}", using surge`);
+    return "surge";
+}
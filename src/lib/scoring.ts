@@ -0,0 +1,179 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Composite Score
+// Turns each criterion into a graded sub-score instead of a
+// pass/fail, so a stock 1.05% from its key level is not treated
+// like one 8% away. Every factor maps its value onto 0–1 around
+// its threshold:
+//   0.5 at the threshold, 1 a full "band" better, 0 a band worse
+// The weighted mean (0–100) decides the status via
+// MIN_ALERT_SCORE and MIN_WATCH_SCORE; a factor scoring 0 (a full
+// band the wrong side of its threshold) vetoes an alert. A stock
+// that just meets every criterion scores at least 50, the default
+// MIN_ALERT_SCORE, so it still alerts.
+// ──────────────────────────────────────────────────────────────
+
+import type {
+    CriteriaThresholds,
+    ScoreFactor,
+    ScoreFactorId,
+    ScoreWeights,
+    StockStatus,
+} from "./constants";
+
+/** The per-stock values the factors are scored from */
+export interface ScoreInputs {
+    /** Day change in the trade's direction (positive = a bigger move) */
+    move: number;
+    /** Delivery %, -1 if unavailable */
+    deliveryPercent: number;
+    /** Delivery ÷ the stock's 20-day average, null if unknown */
+    deliveryRatio: number | null;
+    /** % distance to the key level, null if unavailable */
+    levelProximity: number | null;
+    /** Outperformance in the trade's direction (positive = stronger) */
+    outperformance: number;
+    benchmarkLabel: string;
+    totalMentions: number;
+    /** Mentions after sentiment, spam and duplicate weighting */
+    weightedMentions: number;
+    newsMentions: number;
+    /** Relative volume, null if unknown */
+    rvol: number | null;
+}
+
+export interface CompositeScore {
+    /** 0–100 */
+    score: number;
+    breakdown: ScoreFactor[];
+}
+
+const LABELS: Record<ScoreFactorId, string> = {
+    pump: "Move size",
+    delivery: "Delivery",
+    level: "Key level",
+    outperformance: "Outperformance",
+    silence: "Social silence",
+    news: "News silence",
+    volume: "Relative volume",
+};
+
+/**
+ * Scores every factor with a positive weight. Relative delivery is
+ * used when MAX_DELIVERY_RATIO is set and the stock has a baseline;
+ * volume is scored only when MIN_RELATIVE_VOLUME is set.
+ */
+export function scoreStock(
+    inputs: ScoreInputs,
+    criteria: CriteriaThresholds,
+    weights: ScoreWeights,
+): CompositeScore {
+    const factors: Omit<ScoreFactor, "label" | "weight" | "passed">[] = [];
+
+    const pumpMin = criteria.MIN_PUMP_PERCENT;
+    factors.push({
+        id: "pump",
+        score: ramp(inputs.move, pumpMin, pumpMin, true),
+        detail: `${inputs.move.toFixed(2)}% vs ≥ ${pumpMin}%`,
+    });
+
+    if (inputs.deliveryPercent < 0) {
+        factors.push({ id: "delivery", score: 0, detail: "unavailable" });
+    } else if (criteria.MAX_DELIVERY_RATIO > 0 && inputs.deliveryRatio !== null) {
+        const maxRatio = criteria.MAX_DELIVERY_RATIO;
+        factors.push({
+            id: "delivery",
+            score: ramp(inputs.deliveryRatio, maxRatio, maxRatio / 2, false),
+            detail: `${inputs.deliveryRatio.toFixed(2)}x normal vs ≤ ${maxRatio}x`,
+        });
+    } else {
+        const maxDelivery = criteria.MAX_DELIVERY_PERCENT;
+        factors.push({
+            id: "delivery",
+            score: ramp(inputs.deliveryPercent, maxDelivery, maxDelivery / 2, false),
+            detail: `${inputs.deliveryPercent.toFixed(1)}% vs < ${maxDelivery}%`,
+        });
+    }
+
+    const maxProximity = criteria.MAX_R2_PROXIMITY;
+    factors.push(
+        inputs.levelProximity === null
+            ? { id: "level", score: 0, detail: "unavailable" }
+            : {
+                id: "level",
+                score: ramp(inputs.levelProximity, maxProximity, maxProximity, false),
+                detail: `${inputs.levelProximity.toFixed(2)}% away vs ≤ ${maxProximity}%`,
+            },
+    );
+
+    const minOutperformance = criteria.MIN_SECTOR_OUTPERFORMANCE;
+    factors.push({
+        id: "outperformance",
+        score: ramp(inputs.outperformance, minOutperformance, minOutperformance || 1, true),
+        detail: `${inputs.outperformance.toFixed(2)}% vs ${inputs.benchmarkLabel}, needs ≥ ${minOutperformance}%`,
+    });
+
+    // Counts pass at or below the maximum, so the threshold sits half-way to the next count
+    factors.push({
+        id: "silence",
+        score: ramp(inputs.weightedMentions, criteria.MAX_MENTIONS + 0.5, 0.5, false),
+        detail: `${inputs.weightedMentions} weighted (${inputs.totalMentions} raw) vs ≤ ${criteria.MAX_MENTIONS}`,
+    });
+    factors.push({
+        id: "news",
+        score: ramp(inputs.newsMentions, criteria.MAX_NEWS_MENTIONS + 0.5, 0.5, false),
+        detail: `${inputs.newsMentions} item(s) vs ≤ ${criteria.MAX_NEWS_MENTIONS}`,
+    });
+
+    const minRvol = criteria.MIN_RELATIVE_VOLUME;
+    if (minRvol > 0) {
+        factors.push(
+            inputs.rvol === null
+                ? { id: "volume", score: 0, detail: "unavailable" }
+                : {
+                    id: "volume",
+                    score: ramp(inputs.rvol, minRvol, minRvol / 2, true),
+                    detail: `${inputs.rvol.toFixed(1)}x vs ≥ ${minRvol}x`,
+                },
+        );
+    }
+
+    const breakdown: ScoreFactor[] = factors
+        .filter((f) => weights[f.id] > 0)
+        .map((f) => ({
+            ...f,
+            label: LABELS[f.id],
+            weight: weights[f.id],
+            score: round2(f.score),
+            passed: f.score >= 0.5,
+        }));
+
+    const totalWeight = breakdown.reduce((sum, f) => sum + f.weight, 0);
+    const weighted = breakdown.reduce((sum, f) => sum + f.weight * f.score, 0);
+    return {
+        score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+        breakdown,
+    };
+}
+
+/** The status a score earns on its own, before any alert gates */
+export function statusForScore(
+    { score, breakdown }: CompositeScore,
+    criteria: CriteriaThresholds,
+): StockStatus {
+    if (score >= criteria.MIN_ALERT_SCORE && breakdown.every((f) => f.score > 0)) return "alert";
+    if (score >= criteria.MIN_WATCH_SCORE) return "watch";
+    return "filtered";
+}
+
+/**
+ * 0.5 at `threshold`, rising (or falling, when lower is better)
+ * linearly to 1 one `band` past it, clamped to 0–1
+ */
+function ramp(value: number, threshold: number, band: number, higherIsBetter: boolean): number {
+    const offset = (higherIsBetter ? value - threshold : threshold - value) / (2 * (band || 1));
+    return Math.min(1, Math.max(0, 0.5 + offset));
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,457 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Screening Pipeline
+// Orchestrates all data sources, computes advanced metrics,
+// classifies stocks, dispatches alerts, saves the scan to
+// history and starts outcome tracking for new alerts. Run on
+// demand by /api/screen and on a timer by the scheduler.
+//
+// Rows are labelled with the market session; alerts are only
+// dispatched during the regular session and for fresh quotes.
+// ──────────────────────────────────────────────────────────────
+
+import { getTopGainers, getTopLosers, getNiftyChangePercent } from "./market";
+import { getMarketDataProvider, isOfflineReplay } from "./market-data";
+import { getMarketSession, isQuoteStale, sessionHoldReason } from "./market-session";
+import {
+    describeSocialSources,
+    getEnabledSocialSources,
+    searchSocialMentions,
+} from "./social";
+import { searchNews } from "./news";
+import { getDeliveryBaseline, getDeliveryPercent } from "./delivery";
+import { getPivotData, mirrorPivotTarget } from "./pivots";
+import { getSectorBenchmark, getSectorMap } from "./sectors";
+import { getRelativeVolume } from "./volume";
+import { getIntradayContext } from "./intraday";
+import { getFnoContext } from "./derivatives";
+import { getTradingRestrictions, untradeableReason } from "./surveillance";
+import { scoreStock, statusForScore } from "./scoring";
+import { dispatchAlert } from "./alerts";
+import { claimAlert, releaseAlert } from "./alert-ledger";
+import { saveScan } from "./history";
+import { recordAlert } from "./outcomes";
+import {
+    parseBenchmark,
+    parseCriteriaOverrides,
+    parsePivotTarget,
+    type ResolvedCriteria,
+} from "./criteria";
+import type { Universe } from "./universe";
+import {
+    tickerFromSymbol,
+    type AlertDelivery,
+    type CriteriaThresholds,
+    type OutperformanceBenchmark,
+    type PivotTarget,
+    type ScreenMode,
+    type ScreenResponse,
+    type ScreenStreamEvent,
+    type StockData,
+    type StockStatus,
+    type TradeDirection,
+} from "./constants";
+
+export const SCREEN_MODES: ScreenMode[] = ["surge", "dump", "both"];
+
+/** Validates ?mode= / "mode"; defaults to surge when omitted */
+export function parseScreenMode(raw: unknown): ScreenMode | null {
+    if (raw === null || raw === undefined || raw === "") return "surge";
+    const mode = String(raw).toLowerCase() as ScreenMode;
+    return SCREEN_MODES.includes(mode) ? mode : null;
+}
+
+/** What a GET scan request asks for, before profile and universe are resolved */
+export interface ScreenParams {
+    profileName?: string;
+    overrides: Partial<CriteriaThresholds>;
+    pivotTarget?: PivotTarget;
+    benchmark?: OutperformanceBenchmark;
+    mode: ScreenMode;
+    universeId?: string;
+}
+
+/**
+ * Reads a scan's query params (criteria overrides, ?pivotMethod=,
+ * ?pivotLevel=, ?benchmark=, ?mode=, ?profile=, ?universe=).
+ * Returns an error message instead if any value is invalid.
+ */
+export function parseScreenParams(
+    params: URLSearchParams,
+): { params: ScreenParams } | { error: string } {
+    const { overrides, error } = parseCriteriaOverrides(params);
+    if (error) return { error };
+
+    const { target, error: pivotError } = parsePivotTarget(
+        params.get("pivotMethod"),
+        params.get("pivotLevel"),
+    );
+    if (pivotError) return { error: pivotError };
+
+    const { benchmark, error: benchmarkError } = parseBenchmark(params.get("benchmark"));
+    if (benchmarkError) return { error: benchmarkError };
+
+    const mode = parseScreenMode(params.get("mode"));
+    if (!mode) return { error: `Unknown mode "${params.get("mode")}"` };
+
+    return {
+        params: {
+            profileName: params.get("profile") ?? undefined,
+            overrides,
+            pivotTarget: target,
+            benchmark,
+            mode,
+            universeId: params.get("universe") ?? undefined,
+        },
+    };
+}
+
+/**
+ * Runs one scan with the resolved thresholds. Throws if the universe
+ * has no symbols or the market data needed to start the scan cannot
+ * be fetched.
+ *
+ * `onEvent` receives progress, the scan metadata once the movers are
+ * known, and each enriched row as soon as it is ready (unsorted);
+ * the returned response holds the final, sorted rows.
+ */
+export async function runScreen(
+    { criteria, profile, pivotTarget, benchmark, weights }: ResolvedCriteria,
+    mode: ScreenMode,
+    { symbols, ...universe }: Universe,
+    onEvent?: (event: ScreenStreamEvent) => void,
+): Promise<ScreenResponse> {
+    // An empty universe would otherwise look like a quiet market
+    if (symbols.length === 0) {
+        throw new Error(`Universe "${universe.label}" has no symbols to scan`);
+    }
+
+    // ── Step 1: Fetch Nifty 50 benchmark and movers in parallel ──
+    onEvent?.({ type: "progress", stage: "Fetching market movers" });
+    const [gainers, losers, niftyChangePercent, session, sectorMap] = await Promise.all([
+        mode === "dump" ? [] : getTopGainers(symbols, criteria.MIN_PUMP_PERCENT),
+        mode === "surge" ? [] : getTopLosers(symbols, criteria.MIN_PUMP_PERCENT),
+        getNiftyChangePercent(),
+        getMarketDataProvider().now().then(getMarketSession),
+        getSectorMap(),
+    ]);
+    // Outside the regular session every row is last session's data;
+    // a replay never sends, claims or tracks alerts
+    const sessionHold = isOfflineReplay()
+        ? "Fixture replay: alerts are not sent"
+        : sessionHoldReason(session);
+    const sessionNow = new Date(session.asOf);
+    const supportTarget = mirrorPivotTarget(pivotTarget);
+    const sources = getEnabledSocialSources();
+    const socialSources = describeSocialSources(sources);
+    const candidates = [
+        ...gainers.map((stock) => ({ stock, direction: "short" as TradeDirection })),
+        ...losers.map((stock) => ({ stock, direction: "long" as TradeDirection })),
+    ];
+
+    const summary = {
+        totalScanned: candidates.length,
+        niftyChangePercent,
+        session,
+        universe,
+        criteria,
+        pivotTarget,
+        benchmark,
+        weights,
+        mode,
+        socialSources,
+        profile,
+    };
+
+    if (candidates.length === 0) {
+        const response: ScreenResponse = {
+            stocks: [],
+            scannedAt: new Date().toISOString(),
+            alertsSent: 0,
+            ...summary,
+        };
+        response.scanId = await persistScan(response);
+        return response;
+    }
+
+    onEvent?.({
+        type: "start",
+        response: { stocks: [], scannedAt: new Date().toISOString(), alertsSent: 0, ...summary },
+    });
+
+    // ── Step 2: Enrich each mover with all data sources ───────────
+    let alertsSent = 0;
+    let completed = 0;
+    /** Outcome id for each row whose ledger claim stood */
+    const claimedAlerts = new Map<StockData, string>();
+
+    const enriched: StockData[] = await Promise.all(
+        candidates.map(async ({ stock, direction }) => {
+            const ticker = tickerFromSymbol(stock.symbol);
+            const isLong = direction === "long";
+            const staleQuote = isQuoteStale(stock.quotedAt, sessionNow);
+
+            // Fire all lookups in parallel for speed
+            const [
+                social,
+                news,
+                { deliveryPercent, deliveryBaseline },
+                pivotData,
+                sector,
+                relativeVolume,
+                intraday,
+                fno,
+                restrictions,
+            ] = await Promise.all([
+                searchSocialMentions(ticker, stock.name, sources),
+                searchNews(ticker, stock.name, sessionNow),
+                getDeliveryPercent(ticker, stock.quotedAt).then(async (deliveryPercent) => ({
+                    deliveryPercent,
+                    deliveryBaseline: await getDeliveryBaseline(ticker, deliveryPercent, stock.quotedAt),
+                })),
+                getPivotData(
+                    stock.symbol,
+                    stock.price,
+                    criteria.MAX_R2_PROXIMITY,
+                    isLong ? supportTarget : pivotTarget,
+                ),
+                getSectorBenchmark(sectorMap.get(ticker)),
+                getRelativeVolume(stock.symbol, stock.volume, stock.quotedAt),
+                getIntradayContext(
+                    stock.symbol,
+                    stock.price,
+                    stock.price - stock.change,
+                    stock.quotedAt,
+                ),
+                getFnoContext(ticker, stock.changePercent),
+                getTradingRestrictions(ticker, stock.price),
+            ]);
+
+            // ── Social mentions ──
+            const mentionCounts = social.counts;
+            const mentions = social.mentions;
+            const totalMentions = mentions.length;
+            const mentionSummary = social.summary;
+            const newsMentions = news.length;
+
+            // ── Silence Score ──
+            // Spam, reposts and questions weigh less than a real tip
+            const silenceScore =
+                Math.round(
+                    (Math.abs(stock.changePercent) / (1 + mentionSummary.weighted)) * 100,
+                ) / 100;
+
+            // ── Pivot data ──
+            const pivotPoint = pivotData?.pivot ?? 0;
+            const pivotR2 = pivotData?.r2 ?? 0;
+            const r2Proximity = pivotData?.r2Proximity ?? -1;
+            const nearR2 = pivotData?.nearR2 ?? false;
+            const pivotLevels = pivotData?.levels ?? null;
+            const targetLevel = pivotData?.target ?? null;
+            const nearTargetLevel = pivotData?.nearTarget ?? false;
+            const clusteredLevels = pivotData?.clustered ?? [];
+
+            // ── Market and sector outperformance ──
+            const marketOutperformance =
+                Math.round(
+                    (stock.changePercent - niftyChangePercent) * 100,
+                ) / 100;
+            // Stocks outside every tracked sector fall back to the market
+            const sectorOutperformance = sector
+                ? Math.round((stock.changePercent - sector.changePercent) * 100) / 100
+                : marketOutperformance;
+            const outperformance =
+                benchmark === "sector" ? sectorOutperformance : marketOutperformance;
+
+            // ── Status classification ──
+            // Longs must underperform the benchmark by the same margin
+            const composite = scoreStock(
+                {
+                    move: isLong ? -stock.changePercent : stock.changePercent,
+                    deliveryPercent,
+                    deliveryRatio: deliveryBaseline?.ratio ?? null,
+                    levelProximity: targetLevel?.proximity ?? null,
+                    outperformance: isLong ? -outperformance : outperformance,
+                    benchmarkLabel: benchmark === "sector" && sector ? sector.label : "Nifty 50",
+                    totalMentions,
+                    weightedMentions: mentionSummary.weighted,
+                    newsMentions,
+                    rvol: relativeVolume?.rvolTimeOfDay ?? relativeVolume?.rvol ?? null,
+                },
+                criteria,
+                weights,
+            );
+            // F&O eligibility gates alerts only; it never affects the score
+            const passesFno = !criteria.REQUIRE_FNO || fno?.eligible === true;
+            // Circuit-locked and surveillance names are downgraded to watch
+            const untradeable = untradeableReason(restrictions, direction);
+            const scoredStatus = statusForScore(composite, criteria);
+            const { score, breakdown: scoreBreakdown } = composite;
+
+            let status: StockStatus;
+            let alertSent = false;
+            let alertDeliveries: AlertDelivery[] = [];
+            let alertSuppressed: string | undefined;
+            let outcomeId: string | undefined;
+
+            if (scoredStatus === "alert" && passesFno && !untradeable) {
+                status = "alert";
+
+                // Dispatch to every channel unless the market is shut, the
+                // quote is stale or the ledger holds it back
+                const claim = sessionHold || staleQuote
+                    ? null
+                    : await claimAlert({
+                        symbol: stock.symbol,
+                        direction,
+                        price: stock.price,
+                    }, sessionNow);
+                if (!claim) {
+                    alertSuppressed = sessionHold ?? staleReason(stock.quotedAt, sessionNow);
+                } else if (!claim.allowed) {
+                    alertSuppressed = claim.reason;
+                } else {
+                    alertDeliveries = await dispatchAlert({
+                        ticker,
+                        symbol: stock.symbol,
+                        name: stock.name,
+                        direction,
+                        price: stock.price,
+                        changePercent: stock.changePercent,
+                        deliveryPercent,
+                        deliveryBaseline,
+                        keyLevel: targetLevel,
+                        marketOutperformance,
+                        sector: sector?.label ?? null,
+                        sectorOutperformance,
+                        relativeVolume,
+                        fno,
+                        restrictions,
+                        score,
+                        totalMentions,
+                        weightedMentions: mentionSummary.weighted,
+                        newsMentions,
+                        triggeredAt: new Date().toISOString(),
+                    });
+                    if (alertDeliveries.some((d) => d.delivered > 0)) {
+                        alertsSent++;
+                        alertSent = true;
+                        outcomeId = `${claim.id}-${claim.sequence}`;
+                    } else if (alertDeliveries.length > 0) {
+                        // Reached nobody — let the next scan retry (and track it then)
+                        await releaseAlert(claim);
+                    } else {
+                        // No channel configured: nothing to retry, so the
+                        // claim stands and the dashboard alert is tracked
+                        outcomeId = `${claim.id}-${claim.sequence}`;
+                    }
+                }
+            } else if (scoredStatus !== "filtered") {
+                status = "watch";
+            } else {
+                status = "filtered";
+            }
+
+            const row: StockData = {
+                ...stock,
+                staleQuote,
+                direction,
+                mentionCounts,
+                totalMentions,
+                mentionSummary,
+                silenceScore,
+                mentions,
+                newsMentions,
+                news,
+                deliveryPercent,
+                deliveryBaseline,
+                pivotPoint,
+                pivotR2,
+                r2Proximity,
+                nearR2,
+                pivotLevels,
+                targetLevel,
+                nearTargetLevel,
+                clusteredLevels,
+                marketOutperformance,
+                sector,
+                sectorOutperformance,
+                relativeVolume,
+                intraday,
+                fno,
+                restrictions,
+                untradeable,
+                score,
+                scoreBreakdown,
+                status,
+                alertSent,
+                alertDeliveries,
+                alertSuppressed,
+            };
+            if (outcomeId) claimedAlerts.set(row, outcomeId);
+            onEvent?.({ type: "row", stock: row, completed: ++completed, total: candidates.length });
+            return row;
+        }),
+    );
+
+    // ── Step 3: Sort — alerts first, then by composite score ──────
+    const statusPriority: Record<StockStatus, number> = {
+        alert: 0,
+        watch: 1,
+        filtered: 2,
+    };
+    enriched.sort((a, b) => {
+        const p = statusPriority[a.status] - statusPriority[b.status];
+        if (p !== 0) return p;
+        return b.score - a.score || b.silenceScore - a.silenceScore;
+    });
+
+    onEvent?.({ type: "progress", stage: "Saving scan" });
+    const response: ScreenResponse = {
+        stocks: enriched,
+        scannedAt: new Date().toISOString(),
+        alertsSent,
+        ...summary,
+    };
+    response.scanId = await persistScan(response);
+
+    // ── Step 4: Start tracking post-alert outcomes ────────────────
+    // One record per ledger claim that stood; repeats the ledger held
+    // back belong to the earlier alert's record
+    await Promise.all(
+        [...claimedAlerts].map(([s, id]) =>
+            recordAlert({
+                id,
+                alertedAt: session.asOf,
+                symbol: s.symbol,
+                direction: s.direction,
+                price: s.price,
+                changePercent: s.changePercent,
+                pivot: s.pivotPoint,
+                keyLevel: s.targetLevel?.price ?? s.pivotR2,
+                alertSent: s.alertSent,
+                scanId: response.scanId,
+            }),
+        ),
+    );
+
+    return response;
+}
+
+function staleReason(quotedAt: string | undefined, now: Date): string {
+    const minutes = Math.round((now.getTime() - Date.parse(quotedAt ?? "")) / 60000);
+    return `Stale quote (${minutes}m old)`;
+}
+
+/**
+ * Saves the scan to history. A storage failure must never fail the
+ * scan itself, so errors are logged and undefined is returned.
+ */
+async function persistScan(response: ScreenResponse): Promise<string | undefined> {
+    try {
+        return await saveScan(response);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Screener] Failed to save scan: ${message}`);
+        return undefined;
+    }
+}
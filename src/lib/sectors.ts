@@ -0,0 +1,86 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Sector Benchmarks
+// Maps each stock to its NSE sectoral index and fetches that
+// index's day change, so outperformance can be measured against
+// the stock's own sector instead of the whole market.
+//
+// A stock belongs to the first sectoral index in SECTORS whose
+// constituents include it (more specific indices come first, so
+// SBIN is PSU Bank rather than Bank). Constituents are cached like
+// universe indices (see lib/universe.ts).
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider } from "./market-data";
+import { getIndexConstituents } from "./universe";
+import { tickerFromSymbol, type SectorBenchmark } from "./constants";
+
+export interface Sector {
+    id: string;
+    label: string;
+    /** NSE index name, used for constituents */
+    index: string;
+    /** Market data symbol, used for the day change */
+    symbol: string;
+}
+
+/** Sectoral indices in match order — most specific first */
+export const SECTORS: Sector[] = [
+    { id: "psu-bank", label: "Nifty PSU Bank", index: "NIFTY PSU BANK", symbol: "^CNXPSUBANK" },
+    { id: "bank", label: "Nifty Bank", index: "NIFTY BANK", symbol: "^NSEBANK" },
+    { id: "it", label: "Nifty IT", index: "NIFTY IT", symbol: "^CNXIT" },
+    { id: "pharma", label: "Nifty Pharma", index: "NIFTY PHARMA", symbol: "^CNXPHARMA" },
+    { id: "auto", label: "Nifty Auto", index: "NIFTY AUTO", symbol: "^CNXAUTO" },
+    { id: "metal", label: "Nifty Metal", index: "NIFTY METAL", symbol: "^CNXMETAL" },
+    { id: "fmcg", label: "Nifty FMCG", index: "NIFTY FMCG", symbol: "^CNXFMCG" },
+    { id: "realty", label: "Nifty Realty", index: "NIFTY REALTY", symbol: "^CNXREALTY" },
+    { id: "media", label: "Nifty Media", index: "NIFTY MEDIA", symbol: "^CNXMEDIA" },
+    { id: "energy", label: "Nifty Energy", index: "NIFTY ENERGY", symbol: "^CNXENERGY" },
+    { id: "fin-service", label: "Nifty Financial Services", index: "NIFTY FINANCIAL SERVICES", symbol: "NIFTY_FIN_SERVICE.NS" },
+    { id: "infra", label: "Nifty Infrastructure", index: "NIFTY INFRA", symbol: "^CNXINFRA" },
+];
+
+/** Sector index changes shared across a scan's rows */
+const _changes: Map<string, { promise: Promise<number | null>; fetchedAt: number }> = new Map();
+const CHANGE_TTL_MS = 60 * 1000;
+
+/** Bare ticker → sector, for every stock in a tracked sectoral index */
+export async function getSectorMap(): Promise<Map<string, Sector>> {
+    const constituents = await Promise.all(SECTORS.map((s) => getIndexConstituents(s.index)));
+    const map = new Map<string, Sector>();
+
+    // Iterate in SECTORS order so the most specific sector wins
+    SECTORS.forEach((sector, i) => {
+        for (const symbol of constituents[i]) {
+            const ticker = tickerFromSymbol(symbol);
+            if (!map.has(ticker)) map.set(ticker, sector);
+        }
+    });
+    return map;
+}
+
+/**
+ * Returns the sector benchmark for a stock, or null if it belongs to
+ * no tracked sector or the sector index is unavailable.
+ */
+export async function getSectorBenchmark(sector: Sector | undefined): Promise<SectorBenchmark | null> {
+    if (!sector) return null;
+    const changePercent = await getSectorChangePercent(sector);
+    return changePercent === null
+        ? null
+        : { id: sector.id, label: sector.label, changePercent };
+}
+
+function getSectorChangePercent(sector: Sector): Promise<number | null> {
+    const cached = _changes.get(sector.id);
+    if (cached && Date.now() - cached.fetchedAt < CHANGE_TTL_MS) return cached.promise;
+
+    const promise = getMarketDataProvider()
+        .getIndexChangePercent(sector.symbol)
+        .catch((err: unknown) => {
+            const message = err instanceof Error ? err.message : String(err);
+            console.warn(`[Sectors] Failed to fetch ${sector.label} change: ${message}`);
+            return null;
+        });
+    _changes.set(sector.id, { promise, fetchedAt: Date.now() });
+    return promise;
+}
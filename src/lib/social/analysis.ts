@@ -0,0 +1,147 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Mention Analysis
+// Offline, rule-based reading of a stock's social posts so that
+// not every post counts as one mention:
+//   • sentiment   bullish / bearish / question / neutral, from a
+//                 small trading lexicon
+//   • spam        paid-call and tip-channel promotion
+//   • duplicates  the same forward or copy-paste posted again
+// Each post gets a weight; their sum is the stock's weighted
+// mention count, which the silence checks use.
+// ──────────────────────────────────────────────────────────────
+
+import type { MentionAnalysis, MentionSentiment, MentionSummary, SocialMention } from "../constants";
+
+/** How much a post of each kind counts towards the chatter */
+const SENTIMENT_WEIGHTS: Record<MentionSentiment, number> = {
+    bullish: 1,
+    bearish: 1,
+    // "Why is X down?" reacts to the move rather than driving it
+    question: 0.5,
+    neutral: 0.75,
+};
+const SPAM_WEIGHT = 0.25;
+
+/** Word-set overlap at or above this marks a near-duplicate */
+const DUPLICATE_SIMILARITY = 0.8;
+
+const BULLISH_TERMS = [
+    "buy", "buying", "bought", "long", "bullish", "breakout", "target", "targets",
+    "accumulate", "multibagger", "rocket", "moon", "upside", "rally", "uc",
+    "upper circuit", "add more", "strong buy", "going up", "🚀", "📈",
+];
+const BEARISH_TERMS = [
+    "sell", "selling", "sold", "short", "bearish", "breakdown", "crash", "dump",
+    "dumping", "exit", "avoid", "fraud", "scam", "overvalued", "downside", "lc",
+    "lower circuit", "stop loss hit", "falling", "📉",
+];
+const QUESTION_OPENERS = /^(why|what|how|is|are|should|anyone|any\s+idea|can|will|does)\b/;
+
+const SPAM_PATTERNS: RegExp[] = [
+    /\b(join|subscribe)\b.*\b(channel|group|telegram|whatsapp)\b/,
+    /t\.me\/|wa\.me\/|chat\.whatsapp\.com/,
+    /\bsure\s*shot\b|\bjackpot\b|\bguarantee(d)?\b|\b100\s*%/,
+    /\b(free|premium|paid)\s+(tips?|calls?)\b/,
+    /\b(dm|inbox|whatsapp)\s+(me|us|now)\b|\bcall\s+now\b/,
+    /\boperator\b.*\b(call|stock)\b/,
+    /\b\d+x\s+returns?\b/,
+];
+
+/**
+ * Tags every mention with its analysis and tallies the stock's
+ * weighted count. Mentions are compared in the order given, so the
+ * first copy of a repost counts and later ones weigh nothing.
+ */
+export function analyzeMentions(
+    mentions: SocialMention[],
+): { mentions: SocialMention[]; summary: MentionSummary } {
+    const summary: MentionSummary = {
+        weighted: 0,
+        sentiment: { bullish: 0, bearish: 0, question: 0, neutral: 0 },
+        spam: 0,
+        duplicates: 0,
+    };
+    const seen: Set<string>[] = [];
+
+    const analyzed = mentions.map((mention) => {
+        const text = normalize(mention.title);
+        const words = new Set(text.split(" ").filter((w) => w.length > 1));
+        const duplicateOf = words.size > 0
+            ? seen.findIndex((other) => similarity(words, other) >= DUPLICATE_SIMILARITY)
+            : -1;
+        seen.push(words);
+
+        const analysis: MentionAnalysis = {
+            sentiment: classifySentiment(mention.title),
+            spam: isSpam(mention.title),
+            duplicateOf: duplicateOf >= 0 ? duplicateOf : null,
+            weight: 0,
+        };
+        analysis.weight = analysis.duplicateOf !== null
+            ? 0
+            : analysis.spam ? SPAM_WEIGHT : SENTIMENT_WEIGHTS[analysis.sentiment];
+
+        summary.sentiment[analysis.sentiment]++;
+        if (analysis.spam) summary.spam++;
+        if (analysis.duplicateOf !== null) summary.duplicates++;
+        summary.weighted += analysis.weight;
+
+        return { ...mention, analysis };
+    });
+
+    summary.weighted = Math.round(summary.weighted * 100) / 100;
+    return { mentions: analyzed, summary };
+}
+
+/**
+ * Questions win over the lexicon ("should I buy?" is asking, not
+ * tipping); otherwise the side with more hits, neutral on a tie.
+ */
+export function classifySentiment(text: string): MentionSentiment {
+    const lower = text.toLowerCase().trim();
+    if (lower.endsWith("?") || QUESTION_OPENERS.test(lower)) return "question";
+
+    const bullish = countTerms(lower, BULLISH_TERMS);
+    const bearish = countTerms(lower, BEARISH_TERMS);
+    if (bullish > bearish) return "bullish";
+    if (bearish > bullish) return "bearish";
+    return "neutral";
+}
+
+/** Promotional wording, or a shouted post stuffed with emoji */
+export function isSpam(text: string): boolean {
+    const lower = text.toLowerCase();
+    if (SPAM_PATTERNS.some((pattern) => pattern.test(lower))) return true;
+
+    const letters = text.replace(/[^a-zA-Z]/g, "");
+    const shouting = letters.length >= 20 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7;
+    const emoji = (text.match(/\p{Extended_Pictographic}/gu) ?? []).length;
+    return shouting && emoji >= 3;
+}
+
+function countTerms(lower: string, terms: string[]): number {
+    return terms.filter((term) =>
+        /^\w/.test(term)
+            ? new RegExp(`\\b${term.replace(/\s+/g, "\\s+")}\\b`).test(lower)
+            : lower.includes(term),
+    ).length;
+}
+
+/** Lowercase words only: links, handles, emoji and punctuation dropped */
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/https?:\/\/\S+/g, " ")
+        .replace(/[@#]\w+/g, " ")
+        .replace(/[^a-z0-9\s]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/** Jaccard similarity of two word sets */
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const word of a) if (b.has(word)) shared++;
+    return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,84 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Social Source Registry
+// Every mention source registers here; a scan searches the ones
+// enabled by SOCIAL_SOURCES (comma-separated ids, default: all
+// registered) and gets per-source counts back, with every post
+// run through the mention analyzer.
+// ──────────────────────────────────────────────────────────────
+
+import type { MentionSummary, SocialMention, SocialSourceInfo } from "../constants";
+import type { SocialSource } from "./types";
+import { analyzeMentions } from "./analysis";
+import { getMentionMatcher } from "../aliases";
+import { isOfflineReplay } from "../market-data";
+import { twitterSource } from "./twitter";
+import { redditSource } from "./reddit";
+import { telegramSource } from "./telegram";
+
+export type { SocialSource } from "./types";
+export type { MentionMatcher } from "../aliases";
+
+const _sources: Map<string, SocialSource> = new Map();
+
+/** Adds a source, replacing any already registered under the same id */
+export function registerSocialSource(source: SocialSource): void {
+    _sources.set(source.id, source);
+}
+
+registerSocialSource(twitterSource);
+registerSocialSource(redditSource);
+registerSocialSource(telegramSource);
+
+/** Registered sources that SOCIAL_SOURCES enables, in registration order */
+export function getEnabledSocialSources(): SocialSource[] {
+    const configured = (process.env.SOCIAL_SOURCES ?? "")
+        .split(",")
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean);
+    if (configured.length === 0) return [..._sources.values()];
+
+    for (const id of configured) {
+        if (!_sources.has(id)) console.warn(`[Social] Unknown source "${id}" in SOCIAL_SOURCES`);
+    }
+    return [..._sources.values()].filter((s) => configured.includes(s.id));
+}
+
+/** Display info for the given sources, safe to send to the client */
+export function describeSocialSources(sources: SocialSource[]): SocialSourceInfo[] {
+    return sources.map(({ id, label, icon, color }) => ({ id, label, icon, color }));
+}
+
+/**
+ * Searches every given source for `ticker` (or any of its aliases
+ * and `companyName`) in parallel. A source that throws counts as
+ * zero mentions rather than failing the scan, and a fixture replay
+ * searches nothing. Counts are raw; `summary` holds the weighted
+ * tally.
+ */
+export async function searchSocialMentions(
+    ticker: string,
+    companyName?: string,
+    sources: SocialSource[] = getEnabledSocialSources(),
+): Promise<{ counts: Record<string, number>; mentions: SocialMention[]; summary: MentionSummary }> {
+    if (isOfflineReplay()) {
+        return { counts: Object.fromEntries(sources.map((s) => [s.id, 0])), ...analyzeMentions([]) };
+    }
+
+    const matcher = await getMentionMatcher(ticker, companyName);
+    const results = await Promise.all(
+        sources.map((source) =>
+            source.search(matcher).catch((err: unknown) => {
+                const message = err instanceof Error ? err.message : String(err);
+                console.warn(`[Social] ${source.id} search failed for ${ticker}: ${message}`);
+                return [] as SocialMention[];
+            }),
+        ),
+    );
+
+    const { mentions, summary } = analyzeMentions(results.flat());
+    return {
+        counts: Object.fromEntries(sources.map((s, i) => [s.id, results[i].length])),
+        mentions,
+        summary,
+    };
+}
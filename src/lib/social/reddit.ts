@@ -4,7 +4,17 @@
 // matching posts with direct links.
 // ──────────────────────────────────────────────────────────────
 
-import type { SocialMention } from "./constants";
+import type { SocialMention } from "../constants";
+import type { SocialSource } from "./types";
+import type { MentionMatcher } from "../aliases";
+
+export const redditSource: SocialSource = {
+    id: "reddit",
+    label: "Reddit",
+    icon: "R",
+    color: "#ff4500",
+    search: searchRedditMentions,
+};
 
 const SUBREDDIT_JSON_URL =
     "https://www.reddit.com/r/IndianStreetBets/new.json?limit=100";
@@ -62,22 +72,18 @@ async function fetchPosts(): Promise<RedditPost[]> {
 }
 
 /**
- * Returns recent r/IndianStreetBets posts that mention the given
- * ticker, each with a direct Reddit link.
+ * Returns recent r/IndianStreetBets posts that mention the stock by
+ * ticker or alias, each with a direct Reddit link.
  */
 export async function searchRedditMentions(
-    ticker: string,
+    matcher: MentionMatcher,
 ): Promise<SocialMention[]> {
     const posts = await fetchPosts();
 
-    // Build case-insensitive regex that matches the ticker as a whole word
-    // Handles common formats: RELIANCE, $RELIANCE, #RELIANCE
-    const pattern = new RegExp(`(?:^|[\\s$#])${escapeRegex(ticker)}(?=[\\s,;.!?)\\]]|$)`, "gi");
-
     const mentions: SocialMention[] = [];
     for (const post of posts) {
         const text = `${post.data.title} ${post.data.selftext}`;
-        if (pattern.test(text)) {
+        if (matcher.test(text)) {
             mentions.push({
                 platform: "reddit",
                 title: post.data.title.slice(0, 200),
@@ -88,13 +94,7 @@ export async function searchRedditMentions(
                     : undefined,
             });
         }
-        // Reset lastIndex since we reuse the regex with the g flag
-        pattern.lastIndex = 0;
     }
 
     return mentions;
 }
-
-function escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
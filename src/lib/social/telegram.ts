@@ -4,7 +4,17 @@
 // target channel and returns matching posts with links.
 // ──────────────────────────────────────────────────────────────
 
-import type { SocialMention } from "./constants";
+import type { SocialMention } from "../constants";
+import type { SocialSource } from "./types";
+import type { MentionMatcher } from "../aliases";
+
+export const telegramSource: SocialSource = {
+    id: "telegram",
+    label: "Telegram",
+    icon: "T",
+    color: "#0088cc",
+    search: searchTelegramMentions,
+};
 
 const TELEGRAM_API_BASE = "https://api.telegram.org";
 
@@ -35,12 +45,12 @@ interface TelegramGetUpdatesResponse {
 
 /**
  * Returns recent Telegram messages in the configured channel that
- * mention the given stock ticker, each with a link.
+ * mention the stock by ticker or alias, each with a link.
  *
  * Returns [] if the Telegram Bot API is not configured.
  */
 export async function searchTelegramMentions(
-    ticker: string,
+    matcher: MentionMatcher,
 ): Promise<SocialMention[]> {
     const botToken = process.env.TELEGRAM_BOT_TOKEN;
     if (!botToken || botToken === "your_telegram_bot_token_here") return [];
@@ -60,18 +70,13 @@ export async function searchTelegramMentions(
         const json: TelegramGetUpdatesResponse = await res.json();
         if (!json.ok) return [];
 
-        const pattern = new RegExp(
-            `(?:^|[\\s$#])${escapeRegex(ticker)}(?=[\\s,;.!?)\\]]|$)`,
-            "gi",
-        );
-
         const mentions: SocialMention[] = [];
 
         for (const update of json.result) {
             const msg = update.channel_post ?? update.message;
             if (!msg?.text) continue;
 
-            if (pattern.test(msg.text)) {
+            if (matcher.test(msg.text)) {
                 // Build the link: if channel has a username, we can link directly
                 const chat = msg.chat;
                 let postUrl = "";
@@ -94,7 +99,6 @@ export async function searchTelegramMentions(
                     timestamp: new Date(msg.date * 1000).toISOString(),
                 });
             }
-            pattern.lastIndex = 0;
         }
 
         return mentions;
@@ -104,7 +108,3 @@ export async function searchTelegramMentions(
         return [];
     }
 }
-
-function escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
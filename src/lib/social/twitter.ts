@@ -5,10 +5,20 @@
 // ──────────────────────────────────────────────────────────────
 
 import { TwitterApi } from "twitter-api-v2";
-import type { SocialMention } from "./constants";
+import type { SocialMention } from "../constants";
+import type { SocialSource } from "./types";
+import { isNonLatin, type MentionMatcher } from "../aliases";
 
 let _client: TwitterApi | null = null;
 
+export const twitterSource: SocialSource = {
+    id: "twitter",
+    label: "Twitter / X",
+    icon: "𝕏",
+    color: "#1da1f2",
+    search: searchTwitterMentions,
+};
+
 function getClient(): TwitterApi | null {
     if (_client) return _client;
     const token = process.env.TWITTER_BEARER_TOKEN;
@@ -17,15 +27,21 @@ function getClient(): TwitterApi | null {
     return _client;
 }
 
+/** Aliases sent in the query; Twitter caps a query at 512 characters */
+const MAX_QUERY_ALIASES = 4;
+/** Of those, slots kept for non-Latin (e.g. Hindi) aliases when the stock has any */
+const NON_LATIN_QUERY_ALIASES = 2;
+
 /**
- * Returns recent tweets mentioning `ticker` from trusted user IDs,
- * each with a direct link to the tweet.
+ * Returns recent tweets mentioning the stock by ticker or alias
+ * from trusted user IDs, each with a direct link to the tweet.
  *
  * Returns [] if the Twitter API is not configured.
  */
 export async function searchTwitterMentions(
-    ticker: string,
+    matcher: MentionMatcher,
 ): Promise<SocialMention[]> {
+    const { ticker } = matcher;
     const client = getClient();
     if (!client) return [];
 
@@ -34,8 +50,12 @@ export async function searchTwitterMentions(
         .map((id) => id.trim())
         .filter(Boolean);
 
-    // Build query: match $TICKER or #TICKER (case-insensitive via Twitter search)
-    const tickerQuery = `($${ticker} OR #${ticker})`;
+    // Build query: match $TICKER, #TICKER or a quoted alias (case-insensitive via Twitter search)
+    const nonLatin = matcher.terms.filter(isNonLatin).slice(0, NON_LATIN_QUERY_ALIASES);
+    const latin = matcher.terms.filter((term) => !isNonLatin(term));
+    const aliases = [...latin.slice(0, MAX_QUERY_ALIASES - nonLatin.length), ...nonLatin]
+        .map((term) => `"${term.replace(/"/g, "")}"`);
+    const tickerQuery = `(${[`$${ticker}`, `#${ticker}`, ...aliases].join(" OR ")})`;
 
     // If we have trusted IDs, restrict search to those accounts
     const fromClause =
@@ -43,7 +63,9 @@ export async function searchTwitterMentions(
             ? ` (${trustedIds.map((id) => `from:${id}`).join(" OR ")})`
             : "";
 
-    const query = `${tickerQuery}${fromClause} -is:retweet lang:en`;
+    // Hindi tweets are not lang:en, so only restrict the language without Hindi aliases
+    const langClause = nonLatin.length > 0 ? "" : " lang:en";
+    const query = `${tickerQuery}${fromClause} -is:retweet${langClause}`;
 
     try {
         const roClient = client.readOnly;
@@ -55,6 +77,8 @@ export async function searchTwitterMentions(
         const mentions: SocialMention[] = [];
         if (result.data?.data) {
             for (const tweet of result.data.data) {
+                // Search ignores case, so re-check short and word-like aliases
+                if (!matcher.test(tweet.text ?? "")) continue;
                 mentions.push({
                     platform: "twitter",
                     title: tweet.text?.slice(0, 200) ?? "",
@@ -0,0 +1,17 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Social Source Contract
+// The shape every mention source (Twitter, Reddit, Telegram, or
+// any feed added later) implements to take part in a scan.
+// ──────────────────────────────────────────────────────────────
+
+import type { SocialMention, SocialSourceInfo } from "../constants";
+import type { MentionMatcher } from "../aliases";
+
+export interface SocialSource extends SocialSourceInfo {
+    /**
+     * Returns recent posts that `matcher` accepts, each tagged with
+     * this source's id as its platform. Returns [] if the source is
+     * not configured or the lookup fails.
+     */
+    search(matcher: MentionMatcher): Promise<SocialMention[]>;
+}
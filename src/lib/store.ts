@@ -0,0 +1,97 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Local JSON Store
+// Tiny embedded file store used to persist scans and other state
+// between runs. Each key maps to one JSON file under the data
+// directory (SILENTSURGE_DATA_DIR, default ./.silentsurge).
+// ──────────────────────────────────────────────────────────────
+
+import { promises as fs } from "fs";
+import path from "path";
+
+const DATA_DIR =
+    process.env.SILENTSURGE_DATA_DIR ?? path.join(process.cwd(), ".silentsurge");
+
+/** Per-file promise chains so concurrent writers never interleave */
+const _queues: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Maps a store key such as "scans/index" to its file path.
+ * Keys may only contain word characters, dashes and slashes.
+ */
+function keyToPath(key: string): string {
+    if (!/^[\w-]+(\/[\w-]+)*$/.test(key)) {
+        throw new Error(`Invalid store key: ${key}`);
+    }
+    return path.join(DATA_DIR, `${key}.json`);
+}
+
+/** Runs `task` after every previously queued task for the same file */
+function enqueue<T>(file: string, task: () => Promise<T>): Promise<T> {
+    const previous = _queues.get(file) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    _queues.set(file, settled);
+    settled.then(() => {
+        if (_queues.get(file) === settled) _queues.delete(file);
+    });
+    return next;
+}
+
+async function readFile<T>(file: string, fallback: T): Promise<T> {
+    try {
+        const raw = await fs.readFile(file, "utf8");
+        return JSON.parse(raw) as T;
+    } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return fallback;
+        throw err;
+    }
+}
+
+async function writeFile(file: string, value: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temp file first so readers never see a half-written file
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value), "utf8");
+    await fs.rename(tmp, file);
+}
+
+/**
+ * Reads the JSON value stored under `key`.
+ * Returns `fallback` if nothing has been stored yet.
+ */
+export async function readJson<T>(key: string, fallback: T): Promise<T> {
+    const file = keyToPath(key);
+    return enqueue(file, () => readFile(file, fallback));
+}
+
+/** Atomically replaces the value stored under `key`. */
+export async function writeJson<T>(key: string, value: T): Promise<void> {
+    const file = keyToPath(key);
+    return enqueue(file, () => writeFile(file, value));
+}
+
+/**
+ * Read-modify-write of the value under `key`. The updater runs
+ * while the key is locked, so concurrent updates are not lost.
+ * Returns the new value.
+ */
+export async function updateJson<T>(
+    key: string,
+    fallback: T,
+    updater: (current: T) => T,
+): Promise<T> {
+    const file = keyToPath(key);
+    return enqueue(file, async () => {
+        const next = updater(await readFile(file, fallback));
+        await writeFile(file, next);
+        return next;
+    });
+}
+
+/** Removes the value stored under `key` (no-op if absent). */
+export async function deleteJson(key: string): Promise<void> {
+    const file = keyToPath(key);
+    return enqueue(file, async () => {
+        await fs.rm(file, { force: true });
+    });
+}
@@ -0,0 +1,113 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Circuit Limits & Surveillance
+// Reads each stock's price band (upper/lower circuit) and NSE
+// surveillance status from the equity quote page:
+//   • ASM / GSM  additional or graded surveillance measures
+//   • T2T        trade-to-trade series (BE/BZ), delivery only
+// A stock in any of these, or pinned at the circuit it would
+// trade against, cannot be traded intraday and must not alert.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "./nse-client";
+import { isOfflineReplay } from "./market-data";
+import type { TradeDirection, TradingRestrictions } from "./constants";
+
+/** Within this % of a circuit counts as locked at it */
+const CIRCUIT_LOCK_PERCENT = 0.1;
+const TRADE_TO_TRADE_SERIES = new Set(["BE", "BZ"]);
+
+/** The price-independent part of TradingRestrictions */
+type Restrictions = Omit<TradingRestrictions, "upperCircuitDistance" | "lowerCircuitDistance">;
+
+/** Bands and surveillance change rarely during a session */
+const _cache: Map<string, { value: Restrictions; fetchedAt: number }> = new Map();
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Returns the circuit limits and surveillance flags for `ticker`,
+ * with distances measured from `price`.
+ *
+ * Returns null if NSE's quote is unavailable or during a fixture
+ * replay.
+ */
+export async function getTradingRestrictions(
+    ticker: string,
+    price: number,
+): Promise<TradingRestrictions | null> {
+    if (isOfflineReplay()) return null;
+
+    let cached = _cache.get(ticker);
+    if (!cached || Date.now() - cached.fetchedAt >= CACHE_TTL_MS) {
+        try {
+            const details = await nseIndia.getEquityDetails(ticker);
+            if (!details?.priceInfo) {
+                console.warn(`[Surveillance] No price info for ${ticker}`);
+                return null;
+            }
+
+            const series = (details.metadata?.series ?? "EQ").toUpperCase();
+            const surv = details.securityInfo?.surveillance;
+            const surveillance = [surv?.surv, surv?.desc].filter(Boolean).join(" — ") || null;
+
+            cached = {
+                value: {
+                    upperCircuit: parseBand(details.priceInfo.upperCP),
+                    lowerCircuit: parseBand(details.priceInfo.lowerCP),
+                    priceBand: details.priceInfo.pPriceBand || null,
+                    series,
+                    tradeToTrade: TRADE_TO_TRADE_SERIES.has(series),
+                    surveillance,
+                    // Stage codes such as "LTASM" / "STASM" embed the list name
+                    asm: /ASM/i.test(surveillance ?? ""),
+                    gsm: /GSM/i.test(surveillance ?? ""),
+                },
+                fetchedAt: Date.now(),
+            };
+            _cache.set(ticker, cached);
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            console.warn(`[Surveillance] Failed for ${ticker}: ${message}`);
+            return null;
+        }
+    }
+
+    const { upperCircuit, lowerCircuit } = cached.value;
+    return {
+        ...cached.value,
+        upperCircuitDistance: upperCircuit ? round2(((upperCircuit - price) / price) * 100) : null,
+        lowerCircuitDistance: lowerCircuit ? round2(((price - lowerCircuit) / price) * 100) : null,
+    };
+}
+
+/**
+ * Why the stock cannot be traded intraday in `direction`, or null
+ * if nothing stands in the way. Shorts are blocked at the upper
+ * circuit, longs at the lower one.
+ */
+export function untradeableReason(
+    restrictions: TradingRestrictions | null,
+    direction: TradeDirection,
+): string | null {
+    if (!restrictions) return null;
+    if (restrictions.gsm) return "Under GSM surveillance";
+    if (restrictions.asm) return "Under ASM surveillance";
+    if (restrictions.tradeToTrade) return `Trade-to-trade (${restrictions.series}) series, delivery only`;
+
+    const distance = direction === "short"
+        ? restrictions.upperCircuitDistance
+        : restrictions.lowerCircuitDistance;
+    if (distance !== null && distance <= CIRCUIT_LOCK_PERCENT) {
+        return direction === "short" ? "Locked at upper circuit" : "Locked at lower circuit";
+    }
+    return null;
+}
+
+/** "1234.50" → 1234.5; "No Band", "-" and blanks → null */
+function parseBand(raw: string | number | undefined): number | null {
+    const value = Number(String(raw ?? "").replace(/,/g, ""));
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,157 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Scan Universes
+// The symbols a scan covers: the live constituents of an NSE
+// index, or a saved watchlist ("watchlist:<name>").
+//
+// Index constituents come from NSE's index feed and are cached in
+// the data store for UNIVERSE_REFRESH_HOURS (default 24); sector
+// membership (lib/sectors.ts) is read the same way. If NSE
+// is unreachable the last cached list is used; Nifty 200 falls
+// back to the bundled NIFTY_200_SYMBOLS as a last resort. A
+// fixture replay never calls NSE and uses whatever is cached.
+// DEFAULT_UNIVERSE (default nifty200) is used when a scan does
+// not pick one.
+// ──────────────────────────────────────────────────────────────
+
+import { nseIndia } from "./nse-client";
+import { readJson, writeJson } from "./store";
+import { getWatchlist, listWatchlists } from "./watchlists";
+import { isOfflineReplay } from "./market-data";
+import { NIFTY_200_SYMBOLS, type UniverseInfo } from "./constants";
+
+const REFRESH_MS = Number(process.env.UNIVERSE_REFRESH_HOURS ?? 24) * 60 * 60 * 1000;
+const WATCHLIST_PREFIX = "watchlist:";
+
+/** Index universes: id → NSE index name and display label */
+const INDEX_UNIVERSES: Record<string, { index: string; label: string; fallback?: string[] }> = {
+    nifty50: { index: "NIFTY 50", label: "Nifty 50" },
+    nifty100: { index: "NIFTY 100", label: "Nifty 100" },
+    nifty200: { index: "NIFTY 200", label: "Nifty 200", fallback: NIFTY_200_SYMBOLS },
+    nifty500: { index: "NIFTY 500", label: "Nifty 500" },
+    midcap150: { index: "NIFTY MIDCAP 150", label: "Nifty Midcap 150" },
+    smallcap250: { index: "NIFTY SMALLCAP 250", label: "Nifty Smallcap 250" },
+};
+
+export const DEFAULT_UNIVERSE = INDEX_UNIVERSES[process.env.DEFAULT_UNIVERSE ?? ""]
+    ? process.env.DEFAULT_UNIVERSE!
+    : "nifty200";
+
+/** A universe with its symbols resolved */
+export interface Universe extends UniverseInfo {
+    /** Yahoo-style symbols, e.g. "RELIANCE.NS" */
+    symbols: string[];
+}
+
+interface CachedConstituents {
+    fetchedAt: string;
+    symbols: string[];
+}
+
+const _constituents: Map<string, CachedConstituents> = new Map();
+
+/** Every selectable universe: index universes first, then watchlists */
+export async function listUniverses(): Promise<UniverseInfo[]> {
+    const watchlists = await listWatchlists();
+    return [
+        ...Object.entries(INDEX_UNIVERSES).map(([id, u]) => ({
+            id,
+            label: u.label,
+            kind: "index" as const,
+        })),
+        ...watchlists.map((w) => ({
+            id: `${WATCHLIST_PREFIX}${w.name}`,
+            label: w.name,
+            kind: "watchlist" as const,
+        })),
+    ];
+}
+
+/**
+ * Resolves a universe id (DEFAULT_UNIVERSE if omitted) to its symbols.
+ * Returns null if the id names no index or saved watchlist.
+ */
+export async function resolveUniverse(id?: string | null): Promise<Universe | null> {
+    const wanted = (id || DEFAULT_UNIVERSE).trim().toLowerCase();
+
+    if (wanted.startsWith(WATCHLIST_PREFIX)) {
+        const watchlist = await getWatchlist(wanted.slice(WATCHLIST_PREFIX.length));
+        if (!watchlist) return null;
+        return {
+            id: `${WATCHLIST_PREFIX}${watchlist.name}`,
+            label: watchlist.name,
+            kind: "watchlist",
+            symbols: watchlist.symbols,
+        };
+    }
+
+    const index = INDEX_UNIVERSES[wanted];
+    if (!index) return null;
+    return {
+        id: wanted,
+        label: index.label,
+        kind: "index",
+        symbols: await getIndexConstituents(index.index, index.fallback),
+    };
+}
+
+/**
+ * Yahoo-style symbols of an NSE index's constituents (e.g. "NIFTY
+ * BANK") from memory, the store or NSE, in that order, refreshed
+ * every UNIVERSE_REFRESH_HOURS. Falls back to the last cached list,
+ * then to `fallback`, if NSE is unreachable.
+ */
+export async function getIndexConstituents(
+    index: string,
+    fallback: string[] = [],
+): Promise<string[]> {
+    const isFresh = (c: CachedConstituents | null | undefined) =>
+        !!c && c.symbols.length > 0 && Date.now() - Date.parse(c.fetchedAt) < REFRESH_MS;
+
+    const cached = _constituents.get(index);
+    if (isFresh(cached)) return cached!.symbols;
+
+    const key = `universes/${index.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+    const stored = await readJson<CachedConstituents | null>(key, null);
+    if (stored && isFresh(stored)) {
+        _constituents.set(index, stored);
+        return stored.symbols;
+    }
+
+    const symbols = isOfflineReplay() ? null : await fetchConstituents(index);
+    if (!symbols) {
+        const last = stored?.symbols.length ? stored.symbols : fallback;
+        // Try NSE again in an hour rather than on every scan
+        _constituents.set(index, {
+            fetchedAt: new Date(Date.now() - REFRESH_MS + 60 * 60 * 1000).toISOString(),
+            symbols: last,
+        });
+        return last;
+    }
+
+    const fresh: CachedConstituents = { fetchedAt: new Date().toISOString(), symbols };
+    _constituents.set(index, fresh);
+    try {
+        await writeJson(key, fresh);
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Universe] Failed to cache ${index} constituents: ${message}`);
+    }
+    return symbols;
+}
+
+/** Yahoo-style symbols of an NSE index's constituents, or null on failure */
+async function fetchConstituents(index: string): Promise<string[] | null> {
+    try {
+        const details = await nseIndia.getEquityStockIndices(index);
+        const symbols = (details?.data ?? [])
+            // The feed's first row is the index itself
+            .filter((row) => row.symbol && row.symbol !== index)
+            .map((row) => `${row.symbol}.NS`);
+        if (symbols.length === 0) throw new Error("no constituents returned");
+        return symbols;
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Universe] Failed to fetch ${index} constituents: ${message}`);
+        return null;
+    }
+}
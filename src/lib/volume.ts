@@ -0,0 +1,165 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Relative Volume (RVOL)
+// Compares the volume a stock has traded today with what it
+// normally trades:
+//   • RVOL              vs the 20-session average daily volume
+//   • time-of-day RVOL  vs the average volume traded by the same
+//                       time of day over the last 10 sessions
+// Early in the session only the time-of-day figure is a fair
+// comparison. It needs intraday volume history, which the NSE
+// provider does not supply, so it is null there.
+// ──────────────────────────────────────────────────────────────
+
+import { getMarketDataProvider } from "./market-data";
+import { istTime, SESSION_CLOSE, SESSION_OPEN } from "./market-calendar";
+import { tradingDateOf, type RelativeVolume } from "./constants";
+
+const AVERAGE_SESSIONS = 20;
+const INTRADAY_SESSIONS = 10;
+/** Calendar days fetched to cover AVERAGE_SESSIONS through weekends and holidays */
+const DAILY_LOOKBACK_DAYS = 35;
+const INTRADAY_LOOKBACK_DAYS = 20;
+/** Size of the intraday history bars */
+const BAR_MINUTES = 15;
+
+/** Volume of one intraday bar, by minutes since that session's open */
+interface IntradayVolume {
+    offsetMinutes: number;
+    volume: number;
+}
+
+/**
+ * History before today does not change during the day, so it is
+ * fetched once per symbol per trading date
+ */
+const _daily: Map<string, { date: string; average: number | null }> = new Map();
+const _intraday: Map<string, { date: string; sessions: IntradayVolume[][] }> = new Map();
+
+/**
+ * Returns today's relative volume for `symbol`. `quotedAt` pins the
+ * session the volume belongs to, so an after-hours or weekend quote
+ * is compared with full sessions.
+ *
+ * Returns null if today's volume or the daily volume history is
+ * unavailable.
+ */
+export async function getRelativeVolume(
+    symbol: string,
+    volume: number,
+    quotedAt?: string,
+): Promise<RelativeVolume | null> {
+    // A mover always has trades, so zero means the quote had no volume
+    if (volume <= 0) return null;
+
+    try {
+        const provider = getMarketDataProvider();
+        const now = await provider.now();
+        const asOf = quotedAt ? new Date(quotedAt) : now;
+        const today = tradingDateOf(asOf);
+
+        const averageVolume = await getAverageVolume(symbol, today, now);
+        if (!averageVolume) return null;
+
+        // Minutes into today's session, capped at the full session
+        const open = istTime(today, SESSION_OPEN).getTime();
+        const sessionMinutes = (istTime(today, SESSION_CLOSE).getTime() - open) / 60000;
+        const elapsed = Math.min((asOf.getTime() - open) / 60000, sessionMinutes);
+
+        const timeOfDayVolume = elapsed > 0
+            ? await getTimeOfDayVolume(symbol, today, now, elapsed)
+            : null;
+
+        return {
+            averageVolume: Math.round(averageVolume),
+            rvol: round2(volume / averageVolume),
+            timeOfDayVolume: timeOfDayVolume ? Math.round(timeOfDayVolume) : null,
+            rvolTimeOfDay: timeOfDayVolume ? round2(volume / timeOfDayVolume) : null,
+        };
+    } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[Volume] Failed for ${symbol}: ${message}`);
+        return null;
+    }
+}
+
+/** Mean daily volume of the last AVERAGE_SESSIONS sessions before `today` */
+async function getAverageVolume(symbol: string, today: string, now: Date): Promise<number | null> {
+    const cached = _daily.get(symbol);
+    if (cached?.date === today) return cached.average;
+
+    const from = new Date(now);
+    from.setDate(from.getDate() - DAILY_LOOKBACK_DAYS);
+    const bars = await getMarketDataProvider().getBars(symbol, { from, to: now, interval: "1d" });
+
+    const volumes = bars
+        .filter((b) => tradingDateOf(b.time) < today && b.volume > 0)
+        .slice(-AVERAGE_SESSIONS)
+        .map((b) => b.volume);
+    const average = volumes.length > 0 ? mean(volumes) : null;
+
+    _daily.set(symbol, { date: today, average });
+    return average;
+}
+
+/**
+ * Mean volume traded in the first `elapsed` minutes of each of the
+ * last INTRADAY_SESSIONS sessions, or null without intraday volume.
+ * The bar `elapsed` falls in counts pro rata, assuming its volume
+ * traded evenly.
+ */
+async function getTimeOfDayVolume(
+    symbol: string,
+    today: string,
+    now: Date,
+    elapsed: number,
+): Promise<number | null> {
+    const sessions = await getIntradaySessions(symbol, today, now);
+    if (sessions.length === 0) return null;
+
+    const totals = sessions.map((bars) =>
+        bars
+            .filter((b) => b.offsetMinutes < elapsed)
+            .reduce((sum, b) => sum + b.volume * Math.min(1, (elapsed - b.offsetMinutes) / BAR_MINUTES), 0),
+    );
+    const average = mean(totals);
+    return average > 0 ? average : null;
+}
+
+async function getIntradaySessions(
+    symbol: string,
+    today: string,
+    now: Date,
+): Promise<IntradayVolume[][]> {
+    const cached = _intraday.get(symbol);
+    if (cached?.date === today) return cached.sessions;
+
+    const from = new Date(now);
+    from.setDate(from.getDate() - INTRADAY_LOOKBACK_DAYS);
+    const bars = await getMarketDataProvider().getBars(symbol, { from, to: now, interval: `${BAR_MINUTES}m` });
+
+    const byDate = new Map<string, IntradayVolume[]>();
+    for (const bar of bars) {
+        const date = tradingDateOf(bar.time);
+        if (date >= today) continue;
+        const offsetMinutes = (bar.time.getTime() - istTime(date, SESSION_OPEN).getTime()) / 60000;
+        byDate.set(date, [...(byDate.get(date) ?? []), { offsetMinutes, volume: bar.volume }]);
+    }
+
+    // Sessions without any volume (e.g. NSE tick charts) are unusable
+    const sessions = [...byDate.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, session]) => session)
+        .filter((session) => session.some((b) => b.volume > 0))
+        .slice(-INTRADAY_SESSIONS);
+
+    _intraday.set(symbol, { date: today, sessions });
+    return sessions;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round2(n: number): number {
+    return Math.round(n * 100) / 100;
+}
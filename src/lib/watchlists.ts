@@ -0,0 +1,94 @@
+// ──────────────────────────────────────────────────────────────
+// SilentSurge — Watchlists
+// User-defined symbol lists, saved in the local store and
+// selectable as a scan universe ("watchlist:<name>").
+// ──────────────────────────────────────────────────────────────
+
+import { readJson, updateJson } from "./store";
+import type { Watchlist } from "./constants";
+
+const WATCHLISTS_KEY = "watchlists";
+
+/** Keeps a single list to a size one scan can quote in time */
+const MAX_SYMBOLS = 500;
+
+/** Returns every saved watchlist, by name */
+export async function listWatchlists(): Promise<Watchlist[]> {
+    const saved = await readJson<Watchlist[]>(WATCHLISTS_KEY, []);
+    return saved.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Looks up a watchlist by name (case-insensitive). Returns null if unknown. */
+export async function getWatchlist(name: string): Promise<Watchlist | null> {
+    const wanted = name.trim().toLowerCase();
+    const saved = await readJson<Watchlist[]>(WATCHLISTS_KEY, []);
+    return saved.find((w) => w.name === wanted) ?? null;
+}
+
+/**
+ * Normalises tickers to Yahoo-style symbols ("reliance" →
+ * "RELIANCE.NS"), dropping duplicates. Returns an error message
+ * instead if any entry is not a valid NSE/BSE symbol.
+ */
+export function parseSymbols(raw: unknown): { symbols: string[]; error?: string } {
+    const entries = Array.isArray(raw) ? raw : String(raw ?? "").split(",");
+    const symbols: string[] = [];
+
+    for (const entry of entries) {
+        const s = String(entry).trim().toUpperCase();
+        if (!s) continue;
+        if (!/^[A-Z0-9&-]{1,20}(\.(NS|BO))?$/.test(s)) {
+            return { symbols: [], error: `Invalid symbol "${entry}"` };
+        }
+        const symbol = /\.(NS|BO)$/.test(s) ? s : `${s}.NS`;
+        if (!symbols.includes(symbol)) symbols.push(symbol);
+    }
+    return { symbols };
+}
+
+/**
+ * Creates or replaces a watchlist. Throws if the name is invalid or
+ * the list is empty or too long.
+ */
+export async function saveWatchlist(
+    name: string,
+    symbols: string[],
+    description?: string,
+): Promise<Watchlist> {
+    const normalized = name.trim().toLowerCase();
+    if (!/^[a-z0-9][a-z0-9_-]{0,39}$/.test(normalized)) {
+        throw new Error(`Invalid watchlist name "${name}"`);
+    }
+    if (symbols.length === 0) {
+        throw new Error("A watchlist needs at least one symbol");
+    }
+    if (symbols.length > MAX_SYMBOLS) {
+        throw new Error(`A watchlist can hold at most ${MAX_SYMBOLS} symbols`);
+    }
+
+    const watchlist: Watchlist = {
+        name: normalized,
+        description,
+        symbols,
+        updatedAt: new Date().toISOString(),
+    };
+
+    await updateJson<Watchlist[]>(WATCHLISTS_KEY, [], (saved) => [
+        ...saved.filter((w) => w.name !== normalized),
+        watchlist,
+    ]);
+    return watchlist;
+}
+
+/** Deletes a watchlist. Returns false if no such watchlist exists. */
+export async function deleteWatchlist(name: string): Promise<boolean> {
+    const normalized = name.trim().toLowerCase();
+    let removed = false;
+
+    await updateJson<Watchlist[]>(WATCHLISTS_KEY, [], (saved) => {
+        const next = saved.filter((w) => w.name !== normalized);
+        removed = next.length !== saved.length;
+        return next;
+    });
+    return removed;
+}